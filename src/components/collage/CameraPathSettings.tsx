@@ -0,0 +1,165 @@
+import React from 'react';
+import { nanoid } from 'nanoid';
+import { ArrowUp, ArrowDown, Trash2, Plus, Eye, Crosshair } from 'lucide-react';
+import { type SceneSettings, type CameraKeyframe } from '../../store/sceneStore';
+import { EASING_OPTIONS, type EasingName } from '../../lib/easing';
+import { type CameraProbe } from '../../lib/cameraPath';
+
+const DEFAULT_KEYFRAME_DURATION = 6;
+
+const CameraPathSettings: React.FC<{
+  settings: SceneSettings;
+  onSettingsChange: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
+  cameraProbe?: CameraProbe;
+}> = ({ settings, onSettingsChange, cameraProbe }) => {
+  const keyframes = settings.cameraPath || [];
+  const loopLength = keyframes.reduce((total, keyframe) => total + keyframe.duration, 0);
+
+  const updateKeyframes = (cameraPath: CameraKeyframe[], debounce?: boolean) => {
+    onSettingsChange({ cameraPath }, debounce);
+  };
+
+  const updateKeyframe = (id: string, updates: Partial<CameraKeyframe>, debounce?: boolean) => {
+    updateKeyframes(keyframes.map(keyframe => keyframe.id === id ? { ...keyframe, ...updates } : keyframe), debounce);
+  };
+
+  const moveKeyframe = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= keyframes.length) return;
+    const next = [...keyframes];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateKeyframes(next);
+  };
+
+  const captureView = () => {
+    const pose = cameraProbe?.capture?.();
+    if (!pose) {
+      console.warn('🎥 CAMERA PATH: No camera to record from');
+      return null;
+    }
+    return pose;
+  };
+
+  const addKeyframe = () => {
+    const pose = captureView();
+    if (!pose) return;
+    updateKeyframes([...keyframes, { id: nanoid(8), ...pose, duration: DEFAULT_KEYFRAME_DURATION }]);
+  };
+
+  const recaptureKeyframe = (keyframe: CameraKeyframe) => {
+    const pose = captureView();
+    if (pose) updateKeyframe(keyframe.id, pose);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm text-gray-300 mb-2">
+          Path Easing
+        </label>
+        <select
+          value={settings.cameraPathEasing || 'easeInOutSine'}
+          onChange={(e) => onSettingsChange({ cameraPathEasing: e.target.value as EasingName })}
+          className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+        >
+          {EASING_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        {keyframes.length < 2 && (
+          <p className="text-xs text-gray-400">
+            Move the camera in the preview and add each view as a keyframe. The live view loops
+            through them once there are at least two.
+          </p>
+        )}
+
+        {keyframes.map((keyframe, index) => (
+          <div key={keyframe.id} className="bg-gray-800 p-3 rounded space-y-2">
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-gray-500 w-4">{index + 1}</span>
+              <span className="flex-1 text-xs text-gray-400 truncate">
+                FOV {Math.round(keyframe.fov)}°
+              </span>
+              <button
+                onClick={() => cameraProbe?.goTo?.(keyframe)}
+                disabled={!cameraProbe}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Show this view"
+              >
+                <Eye className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => recaptureKeyframe(keyframe)}
+                disabled={!cameraProbe}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Replace with the current view"
+              >
+                <Crosshair className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => moveKeyframe(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => moveKeyframe(index, 1)}
+                disabled={index === keyframes.length - 1}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => updateKeyframes(keyframes.filter(k => k.id !== keyframe.id))}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="Remove"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-400">
+                Travel Time to Next
+                <span className="ml-2 text-xs text-gray-400">{keyframe.duration}s</span>
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="30"
+                step="0.5"
+                value={keyframe.duration}
+                onChange={(e) => updateKeyframe(keyframe.id, { duration: parseFloat(e.target.value) }, true)}
+                className="w-full bg-gray-800"
+              />
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={addKeyframe}
+          disabled={!cameraProbe}
+          className="w-full px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-md transition-colors text-sm flex items-center justify-center space-x-1 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Current View</span>
+        </button>
+
+        {keyframes.length >= 2 && (
+          <p className="text-xs text-gray-400">
+            {keyframes.length} keyframes, {loopLength.toFixed(1)}s per loop. Dragging the camera pauses
+            the path for a few seconds.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraPathSettings;
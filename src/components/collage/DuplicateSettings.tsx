@@ -0,0 +1,53 @@
+import React from 'react';
+import {
+  DUPLICATE_DISTANCES,
+  DUPLICATE_MODES,
+  resolveDuplicateSettings,
+  type DuplicateMode,
+  type DuplicateSettings as DuplicateSettingsValue,
+} from '../../lib/duplicates';
+
+// Per-collage handling of uploads that look like a photo already in the collage
+const DuplicateSettings: React.FC<{
+  settings?: Partial<DuplicateSettingsValue>;
+  onChange: (settings: DuplicateSettingsValue) => void;
+}> = ({ settings, onChange }) => {
+  const resolved = resolveDuplicateSettings(settings);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <span className="text-sm text-gray-300">Repeat uploads</span>
+          <p className="text-xs text-gray-400">
+            Grouped copies wait in the queue and show up under Possible duplicates.
+          </p>
+        </div>
+        <select
+          value={resolved.mode}
+          onChange={(e) => onChange({ ...resolved, mode: e.target.value as DuplicateMode })}
+          className="bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-sm text-white"
+        >
+          {DUPLICATE_MODES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm text-gray-300">Counts as a copy</span>
+        <select
+          value={resolved.maxDistance}
+          onChange={(e) => onChange({ ...resolved, maxDistance: parseInt(e.target.value) })}
+          className="bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-sm text-white"
+        >
+          {DUPLICATE_DISTANCES.map(({ value, label }) => (
+            <option key={value} value={value}>{label} (within {value} bits)</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default DuplicateSettings;
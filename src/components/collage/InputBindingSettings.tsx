@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { type SceneSettings } from '../../store/sceneStore';
+import {
+  DEFAULT_INPUT_BINDINGS,
+  INPUT_ACTION_LABELS,
+  PATTERN_SHORTCUTS,
+  patternAction,
+  resolveBindings,
+  type InputAction,
+  type InputBindings,
+} from '../../lib/inputMap';
+
+const parseInputs = (text: string): string[] =>
+  text.split(',').map(input => input.trim()).filter(Boolean);
+
+// One row per action; edits are committed when the field loses focus
+const BindingField: React.FC<{
+  label: string;
+  inputs: string[];
+  onCommit: (inputs: string[]) => void;
+}> = ({ label, inputs, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="w-1/2 text-xs text-gray-300">{label}</span>
+      <input
+        type="text"
+        value={draft ?? inputs.join(', ')}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          if (draft !== null) onCommit(parseInputs(draft));
+          setDraft(null);
+        }}
+        className="w-1/2 bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-xs text-white"
+      />
+    </div>
+  );
+};
+
+const InputBindingSettings: React.FC<{
+  settings: SceneSettings;
+  onSettingsChange: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
+}> = ({ settings, onSettingsChange }) => {
+  const overrides = settings.inputBindings || {};
+  const bindings = resolveBindings(overrides);
+
+  const actions: { action: InputAction; label: string }[] = [
+    ...INPUT_ACTION_LABELS,
+    ...Array.from({ length: PATTERN_SHORTCUTS }, (_, i) => ({ action: patternAction(i), label: `Pattern ${i + 1}` })),
+  ];
+
+  const updateBinding = (action: InputAction, inputs: string[]) => {
+    const next: InputBindings = { ...overrides };
+    // Only store what differs from the defaults, so later default changes still apply
+    if (inputs.join(',') === (DEFAULT_INPUT_BINDINGS[action] || []).join(',')) {
+      delete next[action];
+    } else {
+      next[action] = inputs;
+    }
+    onSettingsChange({ inputBindings: next });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">
+        Comma-separated keys for the live viewer. Use key names like ArrowLeft or Space, and
+        Pad0–Pad16 for gamepad buttons. Leave a field empty to unbind it.
+      </p>
+
+      {actions.map(({ action, label }) => (
+        <BindingField
+          key={action}
+          label={label}
+          inputs={bindings[action] || []}
+          onCommit={(inputs) => updateBinding(action, inputs)}
+        />
+      ))}
+
+      {Object.keys(overrides).length > 0 && (
+        <button
+          onClick={() => onSettingsChange({ inputBindings: {} })}
+          className="w-full px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-md transition-colors text-sm flex items-center justify-center space-x-1"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>Reset to Defaults</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default InputBindingSettings;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { X, Keyboard } from 'lucide-react';
+import {
+  INPUT_ACTION_LABELS,
+  PATTERN_SHORTCUTS,
+  inputLabel,
+  patternAction,
+} from '../../lib/inputMap';
+
+const Binding: React.FC<{ inputs?: string[] }> = ({ inputs }) => (
+  <span className="flex flex-wrap justify-end gap-1">
+    {(inputs || []).map(input => (
+      <kbd key={input} className="px-2 py-0.5 bg-gray-800 border border-gray-600 rounded text-xs text-gray-200">
+        {inputLabel(input)}
+      </kbd>
+    ))}
+  </span>
+);
+
+// On-screen reference for the viewer's keyboard and gamepad bindings
+const InputHelpOverlay: React.FC<{
+  bindings: Record<string, string[]>;
+  patternNames: string[];
+  onClose: () => void;
+}> = ({ bindings, patternNames, onClose }) => {
+  const patterns = patternNames.slice(0, PATTERN_SHORTCUTS);
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg p-6 max-w-lg w-full max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center text-xl font-bold text-white">
+            <Keyboard className="w-5 h-5 mr-2" />
+            Controls
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {INPUT_ACTION_LABELS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between space-x-4">
+              <span className="text-sm text-gray-300">{label}</span>
+              <Binding inputs={bindings[action]} />
+            </div>
+          ))}
+
+          {patterns.map((name, index) => (
+            <div key={name} className="flex items-center justify-between space-x-4">
+              <span className="text-sm text-gray-300">Pattern: {name}</span>
+              <Binding inputs={bindings[patternAction(index)]} />
+            </div>
+          ))}
+        </div>
+
+        <p className="mt-4 text-xs text-gray-400">
+          Gamepad: left stick orbits, right stick zooms. Esc closes a photo.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default InputHelpOverlay;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { X, Share2, Download, Trash2, Clock } from 'lucide-react';
+import { type Photo } from '../../store/collageStore';
+import { downloadPhoto } from '../../lib/download';
+
+// Full-resolution view of a photo picked in the 3D scene
+const PhotoDetailOverlay: React.FC<{
+  photo: Photo;
+  onClose: () => void;
+  // Only offered where the viewer is allowed to moderate
+  onDelete?: (photoId: string) => void;
+  deleting?: boolean;
+}> = ({ photo, onClose, onDelete, deleting }) => {
+  const [copied, setCopied] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleShare = async () => {
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: photo.caption || 'Collage photo', url: photo.url });
+        return;
+      }
+      await navigator.clipboard.writeText(photo.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      // Closing the share sheet rejects too, so don't make a fuss
+      console.log('📤 Share cancelled or failed:', err);
+    }
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadPhoto(photo);
+    } catch (err) {
+      console.error('❌ Download failed, opening the photo instead:', err);
+      window.open(photo.url, '_blank', 'noopener');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center p-4 pointer-events-none">
+      <div className="pointer-events-auto bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg max-w-3xl w-full max-h-full flex flex-col overflow-hidden">
+        <div className="relative flex-1 min-h-0 bg-black flex items-center justify-center">
+          <img
+            src={photo.url}
+            alt={photo.caption || 'Collage photo'}
+            className="max-w-full max-h-[70vh] object-contain"
+          />
+          <button
+            onClick={onClose}
+            className="absolute top-2 right-2 p-2 bg-black/60 hover:bg-black/80 text-white rounded-full transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {photo.caption && (
+            <p className="text-white text-lg whitespace-pre-wrap">{photo.caption}</p>
+          )}
+          <p className="flex items-center text-gray-400 text-sm">
+            <Clock className="w-4 h-4 mr-1" />
+            Uploaded {new Date(photo.created_at).toLocaleString()}
+          </p>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleShare}
+              className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors text-sm flex items-center space-x-1"
+            >
+              <Share2 className="w-4 h-4" />
+              <span>{copied ? 'Link Copied!' : 'Share'}</span>
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={downloading}
+              className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-md transition-colors text-sm flex items-center space-x-1"
+            >
+              <Download className="w-4 h-4" />
+              <span>{downloading ? 'Downloading...' : 'Download'}</span>
+            </button>
+            {onDelete && (
+              <button
+                onClick={() => onDelete(photo.id)}
+                disabled={deleting}
+                className="ml-auto px-3 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-md transition-colors text-sm flex items-center space-x-1"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>{deleting ? 'Deleting...' : 'Delete'}</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoDetailOverlay;
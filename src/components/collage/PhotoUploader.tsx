@@ -12,6 +12,8 @@ interface FileUpload {
   progress: number;
   error?: string;
   preview?: string;
+  // Uploaded, but held until a host approves it
+  awaitingApproval?: boolean;
 }
 
 interface PhotoUploaderProps {
@@ -24,6 +26,7 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
   const [fileUploads, setFileUploads] = useState<FileUpload[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
+  const [caption, setCaption] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Create file upload entries with preview generation
@@ -113,14 +116,15 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
 
           // Actual upload using the store method
           console.log('📸 UPLOADER: Starting upload for:', upload.file.name);
-          const result = await uploadPhoto(collageId, upload.file);
+          const result = await uploadPhoto(collageId, upload.file, caption);
           
           clearInterval(progressInterval);
 
           if (result) {
             updateFileStatus(upload.id, { 
               status: 'success', 
-              progress: 100 
+              progress: 100,
+              awaitingApproval: result.status === 'pending'
             });
             
             console.log('✅ UPLOADER: Photo uploaded successfully:', result.id);
@@ -222,6 +226,21 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
 
   return (
     <div className="space-y-4">
+      {/* Caption applied to every photo in the next upload */}
+      <div>
+        <label className="block text-sm text-gray-300 mb-2">
+          Caption <span className="text-gray-500">(optional)</span>
+        </label>
+        <input
+          type="text"
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          placeholder="Shown when the photo arrives in the collage"
+          maxLength={140}
+          className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white placeholder-gray-500 text-sm focus:outline-none focus:border-purple-500"
+        />
+      </div>
+
       {/* Drop Zone */}
       <div
         className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
@@ -343,7 +362,7 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
                       <>
                         <span className="text-gray-400">•</span>
                         <p className="text-green-400 text-xs">
-                          Uploaded successfully
+                          {upload.awaitingApproval ? 'Uploaded, waiting for approval' : 'Uploaded successfully'}
                         </p>
                       </>
                     )}
@@ -0,0 +1,224 @@
+import React from 'react';
+import { nanoid } from 'nanoid';
+import { ListVideo, ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+import { type SceneSettings, type PatternPlaylist, type PlaylistItem, defaultSettings } from '../../store/sceneStore';
+import { PatternRegistry } from '../three/patterns/PatternFactory';
+
+const PlaylistSettings: React.FC<{
+  settings: SceneSettings;
+  onSettingsChange: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
+}> = ({ settings, onSettingsChange }) => {
+  const playlist = settings.playlist || defaultSettings.playlist;
+  const patternDefinitions = PatternRegistry.list();
+
+  const updatePlaylist = (updates: Partial<PatternPlaylist>, debounce?: boolean) => {
+    onSettingsChange({ playlist: { ...playlist, ...updates } }, debounce);
+  };
+
+  const updateItem = (id: string, updates: Partial<PlaylistItem>, debounce?: boolean) => {
+    updatePlaylist({
+      items: playlist.items.map(item => item.id === id ? { ...item, ...updates } : item)
+    }, debounce);
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= playlist.items.length) return;
+    const items = [...playlist.items];
+    [items[index], items[target]] = [items[target], items[index]];
+    updatePlaylist({ items });
+  };
+
+  const addItem = () => {
+    updatePlaylist({
+      items: [
+        ...playlist.items,
+        { id: nanoid(8), pattern: settings.animationPattern, dwell: 60, overrides: {} }
+      ]
+    });
+  };
+
+  // Snapshot the editor's current options for this item's pattern
+  const captureCurrentSettings = (item: PlaylistItem) => {
+    updateItem(item.id, {
+      overrides: {
+        ...item.overrides,
+        animationSpeed: settings.animationSpeed,
+        patterns: { [item.pattern]: { ...settings.patterns?.[item.pattern] } }
+      }
+    });
+  };
+
+  const hasOverrides = (item: PlaylistItem) => Object.keys(item.overrides || {}).length > 0;
+
+  return (
+    <div>
+      <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+        <ListVideo className="h-4 w-4 mr-2" />
+        Pattern Playlist
+      </h4>
+
+      <div className="space-y-4">
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            checked={playlist.enabled}
+            onChange={(e) => updatePlaylist({ enabled: e.target.checked })}
+            className="mr-2 bg-gray-800 border-gray-700"
+          />
+          <label className="text-sm text-gray-300">
+            Cycle Patterns on Live View
+          </label>
+        </div>
+
+        {playlist.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex items-center text-xs text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={playlist.loop}
+                  onChange={(e) => updatePlaylist({ loop: e.target.checked })}
+                  className="mr-2 bg-gray-800 border-gray-700"
+                />
+                Loop
+              </label>
+              <label className="flex items-center text-xs text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={playlist.shuffle}
+                  onChange={(e) => updatePlaylist({ shuffle: e.target.checked })}
+                  className="mr-2 bg-gray-800 border-gray-700"
+                />
+                Shuffle
+              </label>
+            </div>
+
+            <div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={playlist.pauseOnNewPhoto}
+                  onChange={(e) => updatePlaylist({ pauseOnNewPhoto: e.target.checked })}
+                  className="mr-2 bg-gray-800 border-gray-700"
+                />
+                <label className="text-sm text-gray-300">
+                  Pause When a Photo Arrives
+                </label>
+              </div>
+              {playlist.pauseOnNewPhoto && (
+                <div className="mt-2">
+                  <label className="block text-xs text-gray-400">
+                    Extra Time
+                    <span className="ml-2 text-xs text-gray-400">{playlist.newPhotoPause}s</span>
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="60"
+                    step="1"
+                    value={playlist.newPhotoPause}
+                    onChange={(e) => updatePlaylist({ newPhotoPause: parseFloat(e.target.value) }, true)}
+                    className="w-full bg-gray-800"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {playlist.items.length === 0 && (
+                <p className="text-xs text-gray-400">
+                  Add patterns to build the playlist. The live view plays them in order.
+                </p>
+              )}
+
+              {playlist.items.map((item, index) => (
+                <div key={item.id} className="bg-gray-800 p-3 rounded space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-gray-500 w-4">{index + 1}</span>
+                    <select
+                      value={item.pattern}
+                      onChange={(e) => updateItem(item.id, { pattern: e.target.value, overrides: {} })}
+                      className="flex-1 bg-gray-900 border border-gray-700 rounded-md py-1 px-2 text-white text-sm"
+                    >
+                      {patternDefinitions.map(definition => (
+                        <option key={definition.id} value={definition.id}>{definition.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => moveItem(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => moveItem(index, 1)}
+                      disabled={index === playlist.items.length - 1}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => updatePlaylist({ items: playlist.items.filter(i => i.id !== item.id) })}
+                      className="p-1 text-gray-400 hover:text-red-400"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs text-gray-400">
+                      Dwell Time
+                      <span className="ml-2 text-xs text-gray-400">{item.dwell}s</span>
+                    </label>
+                    <input
+                      type="range"
+                      min="5"
+                      max="600"
+                      step="5"
+                      value={item.dwell}
+                      onChange={(e) => updateItem(item.id, { dwell: parseFloat(e.target.value) }, true)}
+                      className="w-full bg-gray-800"
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => captureCurrentSettings(item)}
+                      className="text-xs text-purple-400 hover:text-purple-300"
+                      title="Use the editor's current speed and pattern options for this item"
+                    >
+                      Use current settings
+                    </button>
+                    {hasOverrides(item) && (
+                      <button
+                        onClick={() => updateItem(item.id, { overrides: {} })}
+                        className="text-xs text-gray-400 hover:text-white"
+                      >
+                        Clear overrides
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              <button
+                onClick={addItem}
+                className="w-full flex items-center justify-center px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-md text-sm transition-colors"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Pattern
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistSettings;
@@ -1,12 +1,216 @@
 import React from 'react';
-import { type SceneSettings } from '../../store/sceneStore';
-import { Grid, Palette, CameraIcon, ImageIcon, Square, Sun, Lightbulb } from 'lucide-react';
+import { type SceneSettings, maxPhotoCount } from '../../store/sceneStore';
+import { Grid, Palette, CameraIcon, Route, ImageIcon, Square, Sun, Lightbulb, Dices, Sparkles, Keyboard } from 'lucide-react';
+import { PatternRegistry, type PatternSettingField } from '../three/patterns/PatternFactory';
+import { EASING_OPTIONS, type EasingName } from '../../lib/easing';
+import { newSeed } from '../../lib/random';
+import { SLOT_POLICY_OPTIONS } from '../three/SlotManager';
+import PlaylistSettings from './PlaylistSettings';
+import CameraPathSettings from './CameraPathSettings';
+import InputBindingSettings from './InputBindingSettings';
+import { type CameraProbe } from '../../lib/cameraPath';
+
+const MAX_IMAGE_FIELD_SIZE = 256;
+
+// Image options are saved inside the collage settings, so shrink them to a small PNG first
+const readImageAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    const scale = Math.min(1, MAX_IMAGE_FIELD_SIZE / Math.max(image.width || 1, image.height || 1));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round((image.width || MAX_IMAGE_FIELD_SIZE) * scale));
+    canvas.height = Math.max(1, Math.round((image.height || MAX_IMAGE_FIELD_SIZE) * scale));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/png'));
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Could not load image'));
+  };
+  image.src = url;
+});
+
+// Renders a single control described by a pattern's settings schema
+const PatternSettingControl: React.FC<{
+  field: PatternSettingField;
+  value: number | boolean | string;
+  onChange: (value: number | boolean | string, debounce?: boolean) => void;
+}> = ({ field, value, onChange }) => {
+  switch (field.type) {
+    case 'range':
+      return (
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">
+            {field.label}
+            <span className="ml-2 text-xs text-gray-400">
+              {Number(value)}{field.unit ? ` ${field.unit}` : ''}
+            </span>
+          </label>
+          <input
+            type="range"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={Number(value)}
+            onChange={(e) => onChange(parseFloat(e.target.value), true)}
+            className="w-full bg-gray-800"
+          />
+          {field.description && (
+            <p className="mt-1 text-xs text-gray-400">{field.description}</p>
+          )}
+        </div>
+      );
+    case 'checkbox':
+      return (
+        <div>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={Boolean(value)}
+              onChange={(e) => onChange(e.target.checked)}
+              className="mr-2 bg-gray-800 border-gray-700"
+            />
+            <label className="text-sm text-gray-300">
+              {field.label}
+            </label>
+          </div>
+          {field.description && (
+            <p className="mt-1 text-xs text-gray-400">{field.description}</p>
+          )}
+        </div>
+      );
+    case 'select':
+      return (
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">
+            {field.label}
+          </label>
+          <select
+            value={String(value)}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+          >
+            {field.options.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {field.description && (
+            <p className="mt-1 text-xs text-gray-400">{field.description}</p>
+          )}
+        </div>
+      );
+    case 'color':
+      return (
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">
+            {field.label}
+          </label>
+          <input
+            type="color"
+            value={String(value)}
+            onChange={(e) => onChange(e.target.value, true)}
+            className="w-full h-8 rounded cursor-pointer bg-gray-800"
+          />
+          {field.description && (
+            <p className="mt-1 text-xs text-gray-400">{field.description}</p>
+          )}
+        </div>
+      );
+    case 'text':
+      return (
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">
+            {field.label}
+          </label>
+          {field.multiline ? (
+            <textarea
+              value={String(value)}
+              placeholder={field.placeholder}
+              onChange={(e) => onChange(e.target.value, true)}
+              rows={3}
+              className="w-full bg-gray-900 border border-gray-700 rounded-md py-2 px-3 text-white text-xs font-mono"
+            />
+          ) : (
+            <input
+              type="text"
+              value={String(value)}
+              placeholder={field.placeholder}
+              onChange={(e) => onChange(e.target.value, true)}
+              className="w-full bg-gray-900 border border-gray-700 rounded-md py-2 px-3 text-white text-sm"
+            />
+          )}
+          {field.description && (
+            <p className="mt-1 text-xs text-gray-400">{field.description}</p>
+          )}
+        </div>
+      );
+    case 'image':
+      return (
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">
+            {field.label}
+          </label>
+          {value ? (
+            <div className="flex items-center space-x-3">
+              <img src={String(value)} alt={field.label} className="h-12 w-12 object-contain bg-white rounded" />
+              <button
+                onClick={() => onChange('')}
+                className="text-xs text-gray-400 hover:text-white"
+              >
+                Remove
+              </button>
+            </div>
+          ) : (
+            <input
+              type="file"
+              accept={field.accept || 'image/*'}
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (!file) return;
+                try {
+                  onChange(await readImageAsDataUrl(file));
+                } catch (error) {
+                  console.error('Failed to read image:', error);
+                }
+              }}
+              className="w-full text-xs text-gray-300"
+            />
+          )}
+          {field.description && (
+            <p className="mt-1 text-xs text-gray-400">{field.description}</p>
+          )}
+        </div>
+      );
+  }
+};
 
 const SceneSettings: React.FC<{
   settings: SceneSettings;
   onSettingsChange: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
   onReset: () => void;
-}> = ({ settings, onSettingsChange, onReset }) => {
+  cameraProbe?: CameraProbe;
+}> = ({ settings, onSettingsChange, onReset, cameraProbe }) => {
+  const patternDefinitions = PatternRegistry.list();
+  const activePattern = PatternRegistry.get(settings.animationPattern);
+  const patternOptions = activePattern
+    ? PatternRegistry.resolveOptions(activePattern.id, settings)
+    : {};
+
+  const handlePatternOptionChange = (key: string, value: number | boolean | string, debounce?: boolean) => {
+    if (!activePattern) return;
+    onSettingsChange({
+      patterns: {
+        ...settings.patterns,
+        [activePattern.id]: {
+          ...settings.patterns?.[activePattern.id],
+          [key]: value
+        }
+      }
+    }, debounce);
+  };
+
   return (
     <div className="bg-gray-900/80 backdrop-blur-sm border border-gray-800 rounded-lg p-4 sticky top-20">
       <div className="flex items-center justify-between mb-4">
@@ -51,16 +255,46 @@ const SceneSettings: React.FC<{
                   <select
                     value={settings.animationPattern}
                     onChange={(e) => onSettingsChange({ 
-                      animationPattern: e.target.value as 'float' | 'wave' | 'spiral' | 'grid' 
+                      animationPattern: e.target.value
                     })}
                     className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
                   >
-                    <option value="grid">Grid Wall</option>
-                    <option value="float">Float</option>
-                    <option value="wave">Wave</option>
-                    <option value="spiral">Spiral</option>
+                    {!activePattern && (
+                      <option value={settings.animationPattern}>Unknown ({settings.animationPattern})</option>
+                    )}
+                    {patternDefinitions.map(definition => (
+                      <option key={definition.id} value={definition.id}>{definition.name}</option>
+                    ))}
                   </select>
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-xs text-gray-400">
+                      Layout #{settings.seed ?? 1}
+                    </span>
+                    <button
+                      onClick={() => onSettingsChange({ seed: newSeed() })}
+                      className="flex items-center text-xs text-purple-400 hover:text-purple-300"
+                      title="Pick a new random layout; every screen showing this collage uses the same one"
+                    >
+                      <Dices className="w-3 h-3 mr-1" />
+                      Reroll Layout
+                    </button>
+                  </div>
                 </div>
+
+                {activePattern && activePattern.schema.length > 0 && (
+                  <div className="bg-gray-800 p-3 rounded space-y-3">
+                    {activePattern.schema
+                      .filter(field => !field.showWhen || field.showWhen(patternOptions))
+                      .map(field => (
+                        <PatternSettingControl
+                          key={field.key}
+                          field={field}
+                          value={patternOptions[field.key]}
+                          onChange={(value, debounce) => handlePatternOptionChange(field.key, value, debounce)}
+                        />
+                      ))}
+                  </div>
+                )}
                 
                 <div>
                   <label className="block text-sm text-gray-300 mb-2">
@@ -84,11 +318,113 @@ const SceneSettings: React.FC<{
                     Adjust from stopped (0%) to maximum speed (100%)
                   </p>
                 </div>
+
+                <div className="bg-gray-800 p-3 rounded space-y-3">
+                  <div>
+                    <label className="block text-sm text-gray-300 mb-2">
+                      Pattern Transition
+                      <span className="ml-2 text-xs text-gray-400">
+                        {settings.transitionDuration > 0 ? `${settings.transitionDuration.toFixed(1)}s` : 'Instant'}
+                      </span>
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="5"
+                      step="0.1"
+                      value={settings.transitionDuration}
+                      onChange={(e) => onSettingsChange({ 
+                        transitionDuration: parseFloat(e.target.value)
+                      }, true)}
+                      className="w-full bg-gray-800"
+                    />
+                    <p className="mt-1 text-xs text-gray-400">
+                      How long each photo takes to move when the pattern changes
+                    </p>
+                  </div>
+
+                  {settings.transitionDuration > 0 && (
+                    <>
+                      <div>
+                        <label className="block text-xs text-gray-400 mb-1">Style</label>
+                        <select
+                          value={settings.transitionStyle}
+                          onChange={(e) => onSettingsChange({ 
+                            transitionStyle: e.target.value as SceneSettings['transitionStyle']
+                          })}
+                          className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                        >
+                          <option value="morph">Morph</option>
+                          <option value="explode">Explode &amp; Reassemble</option>
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-xs text-gray-400 mb-1">Easing</label>
+                        <select
+                          value={settings.transitionEasing}
+                          onChange={(e) => onSettingsChange({ 
+                            transitionEasing: e.target.value as EasingName
+                          })}
+                          className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                        >
+                          {EASING_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-xs text-gray-400">
+                          Stagger
+                          <span className="ml-2 text-xs text-gray-400">{settings.transitionStagger.toFixed(1)}s</span>
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="3"
+                          step="0.1"
+                          value={settings.transitionStagger}
+                          onChange={(e) => onSettingsChange({ 
+                            transitionStagger: parseFloat(e.target.value)
+                          }, true)}
+                          className="w-full bg-gray-800"
+                        />
+                      </div>
+
+                      {settings.transitionStyle === 'explode' && (
+                        <div>
+                          <label className="block text-xs text-gray-400">
+                            Explode Distance
+                            <span className="ml-2 text-xs text-gray-400">{Math.round(settings.transitionExplodeDistance)} units</span>
+                          </label>
+                          <input
+                            type="range"
+                            min="5"
+                            max="60"
+                            step="1"
+                            value={settings.transitionExplodeDistance}
+                            onChange={(e) => onSettingsChange({ 
+                              transitionExplodeDistance: parseFloat(e.target.value)
+                            }, true)}
+                            className="w-full bg-gray-800"
+                          />
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
               </>
             )}
           </div>
         </div>
 
+        {/* Pattern Playlist */}
+        <PlaylistSettings
+          settings={settings}
+          onSettingsChange={onSettingsChange}
+        />
+
         {/* Camera Controls */}
         <div>
           <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
@@ -113,20 +449,88 @@ const SceneSettings: React.FC<{
 
             {settings.cameraEnabled && (
               <div className="space-y-4">
-                <div className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={settings.cameraRotationEnabled}
-                    onChange={(e) => onSettingsChange({ 
-                      cameraRotationEnabled: e.target.checked 
-                    })}
-                    className="mr-2 bg-gray-800 border-gray-700"
-                  />
-                  <label className="text-sm text-gray-300">
-                    Auto Rotate
+                <div>
+                  <label className="flex items-center text-sm text-gray-300 mb-2">
+                    <Route className="h-4 w-4 mr-2" />
+                    Camera Mode
                   </label>
+                  <select
+                    value={settings.cameraMode || 'orbit'}
+                    onChange={(e) => onSettingsChange({ cameraMode: e.target.value as SceneSettings['cameraMode'] })}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                  >
+                    <option value="orbit">Orbit</option>
+                    <option value="path">Fly-Through Path</option>
+                    <option value="director">Auto-Director</option>
+                  </select>
                 </div>
 
+                {settings.cameraMode === 'path' && (
+                  <CameraPathSettings
+                    settings={settings}
+                    onSettingsChange={onSettingsChange}
+                    cameraProbe={cameraProbe}
+                  />
+                )}
+
+                {settings.cameraMode === 'director' && (
+                  <>
+                    <p className="text-xs text-gray-400">
+                      Tours the wall, dollying in on one photo at a time. Recent and featured photos come up more often.
+                    </p>
+                    <div>
+                      <label className="block text-sm text-gray-300 mb-2">
+                        Close-Up Time
+                        <span className="ml-2 text-xs text-gray-400">{settings.directorHoldSeconds ?? 5}s</span>
+                      </label>
+                      <input
+                        type="range"
+                        min="2"
+                        max="20"
+                        step="1"
+                        value={settings.directorHoldSeconds ?? 5}
+                        onChange={(e) => onSettingsChange({ 
+                          directorHoldSeconds: parseFloat(e.target.value) 
+                        }, true)}
+                        className="w-full bg-gray-800"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-gray-300 mb-2">
+                        Wide Shot Time
+                        <span className="ml-2 text-xs text-gray-400">{settings.directorWideSeconds ?? 8}s</span>
+                      </label>
+                      <input
+                        type="range"
+                        min="2"
+                        max="30"
+                        step="1"
+                        value={settings.directorWideSeconds ?? 8}
+                        onChange={(e) => onSettingsChange({ 
+                          directorWideSeconds: parseFloat(e.target.value) 
+                        }, true)}
+                        className="w-full bg-gray-800"
+                      />
+                    </div>
+                  </>
+                )}
+
+                {settings.cameraMode !== 'path' && (
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={settings.cameraRotationEnabled}
+                      onChange={(e) => onSettingsChange({ 
+                        cameraRotationEnabled: e.target.checked 
+                      })}
+                      className="mr-2 bg-gray-800 border-gray-700"
+                    />
+                    <label className="text-sm text-gray-300">
+                      Auto Rotate
+                    </label>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm text-gray-300 mb-2">
                     Camera Distance
@@ -161,7 +565,7 @@ const SceneSettings: React.FC<{
                   />
                 </div>
 
-                {settings.cameraRotationEnabled && (
+                {settings.cameraRotationEnabled && settings.cameraMode !== 'path' && (
                   <div>
                     <label className="block text-sm text-gray-300 mb-2">
                       Rotation Speed
@@ -622,7 +1026,7 @@ const SceneSettings: React.FC<{
               <input
                 type="range"
                 min="1"
-                max="500"
+                max={maxPhotoCount(settings)}
                 step="1"
                 value={settings.photoCount}
                 onChange={(e) => onSettingsChange({ 
@@ -635,6 +1039,89 @@ const SceneSettings: React.FC<{
               </p>
             </div>
 
+            <div>
+              <label className="block text-sm text-gray-300 mb-2">
+                When the Collage Is Full
+              </label>
+              <select
+                value={settings.slotPolicy || 'none'}
+                onChange={(e) => onSettingsChange({
+                  slotPolicy: e.target.value as SceneSettings['slotPolicy']
+                })}
+                className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+              >
+                {SLOT_POLICY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-400">
+                {SLOT_POLICY_OPTIONS.find(option => option.value === (settings.slotPolicy || 'none'))?.description}
+              </p>
+            </div>
+
+            {['rotate', 'weighted', 'newest'].includes(settings.slotPolicy) && (
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">
+                  Rotation Interval
+                  <span className="ml-2 text-xs text-gray-400">{settings.slotRotationInterval || 10}s</span>
+                </label>
+                <input
+                  type="range"
+                  min="3"
+                  max="120"
+                  step="1"
+                  value={settings.slotRotationInterval || 10}
+                  onChange={(e) => onSettingsChange({
+                    slotRotationInterval: parseInt(e.target.value)
+                  }, true)}
+                  className="w-full bg-gray-800"
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm text-gray-300 mb-2">
+                Renderer
+              </label>
+              <select
+                value={settings.renderMode || 'meshes'}
+                onChange={(e) => onSettingsChange({
+                  renderMode: e.target.value as SceneSettings['renderMode']
+                })}
+                className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+              >
+                <option value="meshes">Individual Photos (best quality)</option>
+                <option value="instanced">Instanced Atlas (large collages)</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-400">
+                Instanced mode packs photos into shared textures and draws them in a few calls,
+                allowing up to {maxPhotoCount({ renderMode: 'instanced' })} photos
+              </p>
+            </div>
+
+            {settings.renderMode !== 'instanced' && (
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">
+                  Texture Memory
+                  <span className="ml-2 text-xs text-gray-400">{settings.textureMemoryBudget || 512} MB</span>
+                </label>
+                <input
+                  type="range"
+                  min="128"
+                  max="2048"
+                  step="64"
+                  value={settings.textureMemoryBudget || 512}
+                  onChange={(e) => onSettingsChange({
+                    textureMemoryBudget: parseInt(e.target.value)
+                  }, true)}
+                  className="w-full bg-gray-800"
+                />
+                <p className="mt-1 text-xs text-gray-400">
+                  Photos load as thumbnails and sharpen as they get closer; lower this on weaker devices
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm text-gray-300 mb-2">
                 Photo Size
@@ -740,6 +1227,83 @@ const SceneSettings: React.FC<{
           </div>
         </div>
 
+        {/* New Arrivals */}
+        <div>
+          <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+            <Sparkles className="h-4 w-4 mr-2" />
+            New Arrivals
+          </h4>
+
+          <div className="space-y-4">
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                checked={settings.arrivalSpotlightEnabled || false}
+                onChange={(e) => onSettingsChange({
+                  arrivalSpotlightEnabled: e.target.checked
+                })}
+                className="mr-2 bg-gray-800 border-gray-700"
+              />
+              <label className="text-sm text-gray-300">
+                Spotlight New Photos
+              </label>
+            </div>
+            <p className="text-xs text-gray-400">
+              Photos uploaded during the event fly to the front, pause, then join the collage
+            </p>
+
+            {settings.arrivalSpotlightEnabled && (
+              <>
+                <div>
+                  <label className="block text-sm text-gray-300 mb-2">
+                    Hold Time
+                    <span className="ml-2 text-xs text-gray-400">{(settings.arrivalHoldSeconds ?? 4).toFixed(1)}s</span>
+                  </label>
+                  <input
+                    type="range"
+                    min="1"
+                    max="15"
+                    step="0.5"
+                    value={settings.arrivalHoldSeconds ?? 4}
+                    onChange={(e) => onSettingsChange({
+                      arrivalHoldSeconds: parseFloat(e.target.value)
+                    }, true)}
+                    className="w-full bg-gray-800"
+                  />
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={settings.arrivalShowCaption !== false}
+                    onChange={(e) => onSettingsChange({
+                      arrivalShowCaption: e.target.checked
+                    })}
+                    className="mr-2 bg-gray-800 border-gray-700"
+                  />
+                  <label className="text-sm text-gray-300">
+                    Show Uploader's Caption
+                  </label>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={settings.arrivalCameraFollow || false}
+                    onChange={(e) => onSettingsChange({
+                      arrivalCameraFollow: e.target.checked
+                    })}
+                    className="mr-2 bg-gray-800 border-gray-700"
+                  />
+                  <label className="text-sm text-gray-300">
+                    Camera Follows Photo to Its Spot
+                  </label>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
         {/* Wall Height Control */}
         <div>
           <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
@@ -824,6 +1388,16 @@ const SceneSettings: React.FC<{
             )}
           </div>
         </div>
+
+        {/* Viewer Controls */}
+        <div>
+          <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+            <Keyboard className="h-4 w-4 mr-2" />
+            Viewer Controls
+          </h4>
+
+          <InputBindingSettings settings={settings} onSettingsChange={onSettingsChange} />
+        </div>
       </div>
     </div>
   );
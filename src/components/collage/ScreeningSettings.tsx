@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import {
+  ScreeningRegistry,
+  resolveScreeningSettings,
+  type ScreeningSettings as ScreeningSettingsValue,
+} from '../../lib/screening';
+
+// Per-collage upload screening: which rules run and how strict each one is
+const ScreeningSettings: React.FC<{
+  settings?: Partial<ScreeningSettingsValue>;
+  onChange: (settings: ScreeningSettingsValue) => void;
+}> = ({ settings, onChange }) => {
+  const resolved = resolveScreeningSettings(settings);
+  // Thresholds being dragged; saved when the slider is let go
+  const [drafts, setDrafts] = useState<Record<string, number>>({});
+
+  const updateRule = (ruleId: string, updates: Partial<ScreeningSettingsValue['rules'][string]>) => {
+    onChange({
+      ...resolved,
+      rules: { ...resolved.rules, [ruleId]: { ...resolved.rules[ruleId], ...updates } },
+    });
+  };
+
+  const commitThreshold = (ruleId: string) => {
+    const threshold = drafts[ruleId];
+    if (threshold === undefined) return;
+    setDrafts(({ [ruleId]: _, ...rest }) => rest);
+    if (threshold !== resolved.rules[ruleId].threshold) updateRule(ruleId, { threshold });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center cursor-pointer">
+        <input
+          type="checkbox"
+          checked={resolved.enabled}
+          onChange={(e) => onChange({ ...resolved, enabled: e.target.checked })}
+          className="mr-2 bg-gray-800 border-gray-700"
+        />
+        <span className="text-sm text-gray-300">Screen uploads automatically</span>
+      </label>
+
+      {resolved.enabled && (
+        <div className="space-y-3 pl-6">
+          <p className="text-xs text-gray-400">
+            Checks run on the uploader's device before the photo is saved. Photos that trip a rule
+            wait in the queue instead of going live.
+          </p>
+
+          {ScreeningRegistry.list().map(rule => {
+            const ruleSettings = resolved.rules[rule.id];
+            const threshold = drafts[rule.id] ?? ruleSettings.threshold;
+            return (
+              <div key={rule.id}>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={ruleSettings.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    className="mr-2 bg-gray-800 border-gray-700"
+                  />
+                  <span className="text-sm text-gray-300">{rule.label}</span>
+                </label>
+                <p className="text-xs text-gray-500 ml-6">{rule.description}</p>
+
+                {ruleSettings.enabled && (
+                  <div className="ml-6 mt-1">
+                    <label className="block text-xs text-gray-400">
+                      Hold at score
+                      <span className="ml-2">{threshold.toFixed(2)}</span>
+                    </label>
+                    <input
+                      type="range"
+                      min="0.05"
+                      max="1"
+                      step="0.05"
+                      value={threshold}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [rule.id]: parseFloat(e.target.value) }))}
+                      onPointerUp={() => commitThreshold(rule.id)}
+                      onKeyUp={() => commitThreshold(rule.id)}
+                      onBlur={() => commitThreshold(rule.id)}
+                      className="w-full bg-gray-800"
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScreeningSettings;
@@ -0,0 +1,36 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+// Seconds the toast stays up before the action is final
+const UNDO_SECONDS = 8;
+
+// Bottom-of-screen notice with an Undo button for actions that can still be reversed
+const UndoToast: React.FC<{
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}> = ({ message, onUndo, onDismiss }) => {
+  // Restart the timer whenever the message changes, e.g. another photo was deleted
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, UNDO_SECONDS * 1000);
+    return () => clearTimeout(timeout);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-4 bg-gray-800 border border-gray-600 rounded-lg shadow-lg px-4 py-3">
+      <span className="text-white text-sm">{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center space-x-1 text-blue-400 hover:text-blue-300 text-sm font-medium"
+      >
+        <Undo2 className="w-4 h-4" />
+        <span>Undo</span>
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-white" title="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
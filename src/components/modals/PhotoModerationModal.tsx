@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
 import { X, Check, Trash2, Eye, AlertCircle } from 'lucide-react';
-import { useCollageStore } from '../../store/collageStore';
+import { useCollageStore, type PhotoStatus } from '../../store/collageStore';
 
 interface Photo {
   id: string;
   url: string;
   collage_id: string;
+  status?: PhotoStatus;
   created_at: string;
 }
 
@@ -21,17 +22,26 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
   const [loading, setLoading] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const { deletePhoto } = useCollageStore();
+  const { deletePhoto, updatePhoto } = useCollageStore();
 
-  const handleApprove = (photo: Photo) => {
-    // Photos are approved by default when uploaded
-    // This could trigger a status update if you add approval status to the schema
-    console.log('Photo approved:', photo.id);
+  // Releases a pending photo to the live screens
+  const handleApprove = async (photo: Photo) => {
+    setLoading(photo.id);
     setError(null);
+
+    try {
+      await updatePhoto(photo.id, { status: 'approved' });
+      console.log('✅ Photo approved:', photo.id);
+    } catch (error) {
+      console.error('Failed to approve photo:', error);
+      setError('Failed to approve photo. Please try again.');
+    } finally {
+      setLoading(null);
+    }
   };
 
   const handleReject = async (photo: Photo) => {
-    if (!confirm('Are you sure you want to delete this photo? This action cannot be undone.')) {
+    if (!confirm('Move this photo to the trash? It can be restored from the moderation page.')) {
       return;
     }
 
@@ -130,7 +140,8 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({
                       {/* Approve */}
                       <button
                         onClick={() => handleApprove(photo)}
-                        className="p-2 bg-green-600 hover:bg-green-700 text-white rounded-full transition-colors shadow-lg"
+                        disabled={loading === photo.id || photo.status === 'approved'}
+                        className="p-2 bg-green-600 hover:bg-green-700 text-white rounded-full transition-colors disabled:opacity-50 shadow-lg"
                         title="Approve Photo"
                       >
                         <Check className="h-4 w-4" />
@@ -156,6 +167,12 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({
                   <div className="absolute top-0 right-0 bg-black/60 text-white text-xs px-2 py-1 rounded-bl-lg">
                     {new Date(photo.created_at).toLocaleTimeString()}
                   </div>
+
+                  {photo.status === 'pending' && (
+                    <div className="absolute bottom-0 left-0 bg-yellow-500/90 text-black text-xs px-2 py-1 rounded-tr-lg">
+                      Awaiting approval
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -167,7 +184,7 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({
           <p className="text-gray-300 text-sm">
             <strong>Instructions:</strong> Review each photo before it appears in the collage. 
             Use the preview button to see the full image with any text that was added in the photobooth. 
-            Approve photos to keep them, or delete to remove them permanently from the collage.
+            Approve photos to keep them, or delete to move them to the trash.
           </p>
         </div>
       </div>
@@ -0,0 +1,211 @@
+import * as THREE from 'three';
+import { ease } from '../../lib/easing';
+import { PatternEngine } from './patterns/PatternEngine';
+import { SLOT_STRIDE } from './patterns/PatternBuffer';
+
+type DirectedPhoto = {
+  id: string;
+  url: string;
+  slotIndex: number;
+  created_at?: string;
+  featured?: boolean;
+};
+
+type DirectorTiming = {
+  // Seconds spent framing each photo
+  holdSeconds: number;
+  // Seconds on the wide shot between close-ups
+  wideSeconds: number;
+};
+
+type ShotPhase = 'wide' | 'in' | 'hold' | 'out';
+
+export type DirectorShot = {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+};
+
+// Seconds to dolly between the wide shot and a close-up
+const DOLLY_SECONDS = 2.5;
+// Fraction of the view height a framed photo fills
+const CLOSE_UP_FRACTION = 0.7;
+// The newest photo is this many times more likely to be picked than the oldest
+const RECENCY_BIAS = 3;
+// Featured photos are picked this many times more often
+const FEATURED_WEIGHT = 3;
+// Recently framed photos sit out this many shots
+const RECENT_SHOTS = 3;
+
+const createdTime = (photo: DirectedPhoto) => (photo.created_at ? new Date(photo.created_at).getTime() : 0);
+
+// Tours individual photos: from the wide shot, dolly in to frame a photo, hold, then
+// pull back out. Returns null while on the wide shot so the orbit camera takes over.
+// Also used to fly to a photo the viewer clicked (see focus/release)
+export class AutoDirector {
+  private phase: ShotPhase = 'wide';
+  private phaseTime = 0;
+  private photoId: string | null = null;
+  private recent: string[] = [];
+
+  // Where the camera was when the shot started, where the current move started, and
+  // where it frames the photo
+  private widePosition = new THREE.Vector3();
+  private wideTarget = new THREE.Vector3();
+  private startPosition = new THREE.Vector3();
+  private startTarget = new THREE.Vector3();
+  private closePosition = new THREE.Vector3();
+  private slotPosition = new THREE.Vector3();
+  private shot: DirectorShot = { position: new THREE.Vector3(), target: new THREE.Vector3() };
+
+  // Scratch objects reused every frame
+  private normal = new THREE.Vector3();
+  private toWide = new THREE.Vector3();
+  private euler = new THREE.Euler();
+
+  // Whether the camera is away from the wide shot
+  get active(): boolean {
+    return this.phase !== 'wide';
+  }
+
+  // Drop the current shot, e.g. when the host grabs the camera
+  reset() {
+    this.phase = 'wide';
+    this.phaseTime = 0;
+    this.photoId = null;
+  }
+
+  // Fly to a particular photo straight away; with an unlimited hold it stays there until released
+  focus(photoId: string, camera: THREE.Camera, currentTarget: THREE.Vector3) {
+    if (this.photoId === photoId && (this.phase === 'in' || this.phase === 'hold')) return;
+    if (this.phase === 'wide') this.startShot(camera, currentTarget);
+    this.photoId = photoId;
+    this.setPhase('in');
+  }
+
+  // Pull back to the wide shot from wherever the camera is
+  release() {
+    if (this.phase === 'in' || this.phase === 'hold') this.setPhase('out');
+  }
+
+  private startShot(camera: THREE.Camera, currentTarget: THREE.Vector3) {
+    this.widePosition.copy(camera.position);
+    this.wideTarget.copy(currentTarget);
+    this.shot.position.copy(camera.position);
+    this.shot.target.copy(currentTarget);
+  }
+
+  update(
+    delta: number,
+    timing: DirectorTiming,
+    photos: DirectedPhoto[],
+    engine: PatternEngine,
+    camera: THREE.PerspectiveCamera,
+    currentTarget: THREE.Vector3,
+    faceCamera: boolean,
+    photoSize: number
+  ): DirectorShot | null {
+    this.phaseTime += delta;
+
+    if (this.phase === 'wide') {
+      if (this.phaseTime < timing.wideSeconds) return null;
+
+      const next = this.pick(photos, engine.count);
+      if (!next) {
+        this.phaseTime = 0;
+        return null;
+      }
+      this.photoId = next.id;
+      this.recent = [next.id, ...this.recent].slice(0, RECENT_SHOTS);
+      this.startShot(camera, currentTarget);
+      this.setPhase('in');
+      console.log(`🎬 DIRECTOR: Framing photo ${next.id.slice(-4)}`);
+    }
+
+    // The photo may have left the wall (or the pattern) mid-shot
+    const photo = photos.find(p => p.id === this.photoId);
+    if (!photo || photo.slotIndex >= engine.count) {
+      if (this.phase !== 'out') this.setPhase('out');
+    } else {
+      this.frame(photo.slotIndex, engine, camera, faceCamera, photoSize);
+    }
+
+    switch (this.phase) {
+      case 'in': {
+        const t = ease('easeInOutCubic', this.phaseTime / DOLLY_SECONDS);
+        this.shot.position.lerpVectors(this.startPosition, this.closePosition, t);
+        this.shot.target.lerpVectors(this.startTarget, this.slotPosition, t);
+        if (this.phaseTime >= DOLLY_SECONDS) this.setPhase('hold');
+        break;
+      }
+      case 'hold':
+        this.shot.position.copy(this.closePosition);
+        this.shot.target.copy(this.slotPosition);
+        if (this.phaseTime >= timing.holdSeconds) this.setPhase('out');
+        break;
+      case 'out': {
+        const t = ease('easeInOutCubic', this.phaseTime / DOLLY_SECONDS);
+        this.shot.position.lerpVectors(this.startPosition, this.widePosition, t);
+        this.shot.target.lerpVectors(this.startTarget, this.wideTarget, t);
+        if (this.phaseTime >= DOLLY_SECONDS) this.reset();
+        break;
+      }
+    }
+
+    return this.shot;
+  }
+
+  // Each move starts from wherever the last one left the camera
+  private setPhase(phase: ShotPhase) {
+    this.phase = phase;
+    this.phaseTime = 0;
+    this.startPosition.copy(this.shot.position);
+    this.startTarget.copy(this.shot.target);
+  }
+
+  // Camera spot in front of the photo, far enough back to fit it in the frame
+  private frame(slotIndex: number, engine: PatternEngine, camera: THREE.PerspectiveCamera, faceCamera: boolean, size: number) {
+    const data = engine.positions;
+    const offset = slotIndex * SLOT_STRIDE;
+    this.slotPosition.set(data[offset], data[offset + 1], data[offset + 2]);
+
+    if (faceCamera) {
+      // Photos turn towards the camera, so approach from the wide shot's side
+      this.normal.subVectors(this.widePosition, this.slotPosition);
+    } else {
+      this.euler.set(data[offset + 3], data[offset + 4], data[offset + 5]);
+      this.normal.set(0, 0, 1).applyEuler(this.euler);
+      // Photos are double sided; stay on the side the audience was looking at
+      this.toWide.subVectors(this.widePosition, this.slotPosition);
+      if (this.normal.dot(this.toWide) < 0) this.normal.negate();
+    }
+    if (this.normal.lengthSq() < 1e-6) this.normal.set(0, 0, 1);
+    this.normal.normalize();
+
+    const halfFov = THREE.MathUtils.degToRad(camera.fov || 75) / 2;
+    const distance = size / (2 * Math.tan(halfFov) * CLOSE_UP_FRACTION);
+    this.closePosition.copy(this.slotPosition).addScaledVector(this.normal, distance);
+  }
+
+  // Weighted pick favouring recent and featured uploads, skipping the last few shots
+  private pick(photos: DirectedPhoto[], slotCount: number): DirectedPhoto | null {
+    const candidates = photos.filter(photo => photo.url && photo.slotIndex < slotCount);
+    if (candidates.length === 0) return null;
+
+    const fresh = candidates.filter(photo => !this.recent.includes(photo.id));
+    const pool = fresh.length > 0 ? fresh : candidates;
+
+    const times = pool.map(createdTime);
+    const oldest = Math.min(...times);
+    const span = Math.max(...times) - oldest || 1;
+    const weights = pool.map((photo, index) =>
+      (1 + (RECENCY_BIAS - 1) * ((times[index] - oldest) / span)) * (photo.featured ? FEATURED_WEIGHT : 1)
+    );
+
+    let roll = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < pool.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) return pool[i];
+    }
+    return pool[pool.length - 1];
+  }
+}
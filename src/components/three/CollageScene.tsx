@@ -1,14 +1,26 @@
-import React, { useRef, useMemo, useEffect, useState, useCallback } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
+import { Canvas, useFrame, useThree, type ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
 import * as THREE from 'three';
 import { type SceneSettings } from '../../store/sceneStore';
-import { PatternFactory } from './patterns/PatternFactory';
+import { PatternEngine } from './patterns/PatternEngine';
+import { SLOT_STRIDE, MAX_PATTERN_SLOTS } from './patterns/PatternBuffer';
+import { PhotoAtlas } from './PhotoAtlas';
+import { TextureManager, tierForScreenHeight } from './TextureManager';
+import HeroArrival, { createArrivalState, type ArrivalState } from './HeroArrival';
+import { SlotManager } from './SlotManager';
+import { AutoDirector } from './AutoDirector';
+import VideoWall, { createWallSyncState, isWallFollower, type WallShow, type WallSyncState, type WallTile } from './VideoWall';
 import { addCacheBustToUrl } from '../../lib/supabase';
+import { createCameraPath, type CameraPose, type CameraProbe } from '../../lib/cameraPath';
+import { type CameraInput } from '../../lib/inputMap';
 
 type Photo = {
   id: string;
   url: string;
+  caption?: string | null;
+  pinned_slot?: number | null;
+  featured?: boolean;
   collage_id?: string;
   created_at?: string;
 };
@@ -17,113 +29,34 @@ type CollageSceneProps = {
   photos: Photo[];
   settings: SceneSettings;
   onSettingsChange?: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
+  // Lets the editor record camera keyframes
+  cameraProbe?: CameraProbe;
+  // Clicking a photo reports it here; the camera flies to the inspected photo until it's cleared
+  onPhotoSelect?: (photoId: string) => void;
+  inspectedPhotoId?: string | null;
+  // Keyboard/gamepad camera control and pause from the viewer
+  cameraInput?: CameraInput;
+  animationPaused?: boolean;
+  // Set when this scene is one display of a multi-screen video wall
+  videoWall?: { tile: WallTile; collageId: string; show?: WallShow; onShow?: (show: WallShow) => void };
 };
 
-type PhotoWithPosition = Photo & {
-  targetPosition: [number, number, number];
-  targetRotation: [number, number, number];
-  displayIndex?: number;
-  slotIndex: number; // Added for stable slot assignment
+// Positions live in the pattern engine's buffer; meshes look theirs up by slot
+type SlottedPhoto = Photo & {
+  slotIndex: number;
 };
 
 // Adjusted smoothing values for float pattern
 const POSITION_SMOOTHING = 0.1;
 const ROTATION_SMOOTHING = 0.1;
 const TELEPORT_THRESHOLD = 30; // Distance threshold to detect teleportation
-
-// Stable slot assignment system
-class SlotManager {
-  private slotAssignments = new Map<string, number>(); // photoId -> slotIndex
-  private occupiedSlots = new Set<number>();
-  private availableSlots: number[] = [];
-  private totalSlots = 0;
-
-  constructor(totalSlots: number) {
-    this.updateSlotCount(totalSlots);
-  }
-
-  updateSlotCount(newTotal: number) {
-    if (newTotal === this.totalSlots) return;
-    
-    this.totalSlots = newTotal;
-    
-    // Clear slots that are beyond the new limit
-    for (const [photoId, slotIndex] of this.slotAssignments.entries()) {
-      if (slotIndex >= newTotal) {
-        this.slotAssignments.delete(photoId);
-        this.occupiedSlots.delete(slotIndex);
-      }
-    }
-    
-    // Rebuild available slots
-    this.rebuildAvailableSlots();
-  }
-
-  private rebuildAvailableSlots() {
-    this.availableSlots = [];
-    for (let i = 0; i < this.totalSlots; i++) {
-      if (!this.occupiedSlots.has(i)) {
-        this.availableSlots.push(i);
-      }
-    }
-    // Shuffle for better distribution
-    this.shuffleArray(this.availableSlots);
-  }
-
-  private shuffleArray(array: number[]) {
-    // Fisher-Yates shuffle for even distribution
-    for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [array[i], array[j]] = [array[j], array[i]];
-    }
-  }
-
-  assignSlots(photos: Photo[]): Map<string, number> {
-    // Safety check for photos array - but allow empty array
-    if (!Array.isArray(photos)) {
-      console.warn('🎬 SLOT MANAGER: Photos is not an array, using empty array');
-      photos = [];
-    }
-
-    // Remove assignments for photos that no longer exist
-    const currentPhotoIds = new Set(photos.map(p => p.id));
-    const beforeCount = this.slotAssignments.size;
-    
-    for (const [photoId, slotIndex] of this.slotAssignments.entries()) {
-      if (!currentPhotoIds.has(photoId)) {
-        console.log(`🎬 SLOT: Removing deleted photo ${photoId.slice(-4)} from slot ${slotIndex}`);
-        this.slotAssignments.delete(photoId);
-        this.occupiedSlots.delete(slotIndex);
-      }
-    }
-
-    const afterCleanup = this.slotAssignments.size;
-    if (beforeCount !== afterCleanup) {
-      console.log(`🎬 SLOT: Cleaned up ${beforeCount - afterCleanup} deleted photos`);
-    }
-
-    // Rebuild available slots after cleanup
-    this.rebuildAvailableSlots();
-
-    // Assign slots to new photos in order of creation (oldest first for stability)
-    const sortedPhotos = [...photos].sort((a, b) => {
-      if (a.created_at && b.created_at) {
-        return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-      }
-      return a.id.localeCompare(b.id);
-    });
-
-    for (const photo of sortedPhotos) {
-      if (!this.slotAssignments.has(photo.id) && this.availableSlots.length > 0) {
-        const slotIndex = this.availableSlots.shift()!;
-        this.slotAssignments.set(photo.id, slotIndex);
-        this.occupiedSlots.add(slotIndex);
-      }
-    }
-
-    return new Map(this.slotAssignments);
-  }
-}
+const TEXTURE_TIER_CHECK_FRAMES = 30; // How often each photo re-checks its on-screen size
+const ARRIVAL_FOCUS_SMOOTHING = 0.04; // Camera target easing while following a new arrival
+const MANUAL_CAMERA_RESUME_DELAY = 5000; // ms camera paths and the auto-director wait after the host moves the camera
+const PATH_BLEND_SECONDS = 1; // How long the camera takes to rejoin the path
+const INSPECT_TIMING = { holdSeconds: Infinity, wideSeconds: Infinity }; // Hold on a clicked photo until released
+const MANUAL_ORBIT_SPEED = 1.2; // Radians per second with a key held or the stick fully over
+const MANUAL_ZOOM_SPEED = 1.5; // Zoom rate per second, as a power of e
 
 // VolumetricSpotlight component
 const VolumetricSpotlight: React.FC<{
@@ -311,13 +244,17 @@ const SceneLighting: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
 
 // PhotoMesh component with brightness control
 const PhotoMesh: React.FC<{
-  photo: PhotoWithPosition;
+  photo: SlottedPhoto;
+  engine: PatternEngine;
+  textures: TextureManager;
+  arrival: ArrivalState;
   size: number;
   emptySlotColor: string;
   pattern: string;
   shouldFaceCamera: boolean;
   brightness: number;
-}> = ({ photo, size, emptySlotColor, pattern, shouldFaceCamera, brightness }) => {
+  onSelect?: (photoId: string) => void;
+}> = ({ photo, engine, textures, arrival, size, emptySlotColor, pattern, shouldFaceCamera, brightness, onSelect }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const { camera } = useThree();
   const [texture, setTexture] = useState<THREE.Texture | null>(null);
@@ -327,6 +264,8 @@ const PhotoMesh: React.FC<{
   const lastPositionRef = useRef<[number, number, number]>([0, 0, 0]);
   const currentPosition = useRef<THREE.Vector3>(new THREE.Vector3());
   const currentRotation = useRef<THREE.Euler>(new THREE.Euler());
+  const targetPositionRef = useRef<THREE.Vector3>(new THREE.Vector3());
+  const targetRotationRef = useRef<THREE.Euler>(new THREE.Euler());
 
   useEffect(() => {
     if (!photo.url) {
@@ -334,36 +273,30 @@ const PhotoMesh: React.FC<{
       return;
     }
 
-    const loader = new THREE.TextureLoader();
     setIsLoading(true);
     setHasError(false);
 
-    const handleLoad = (loadedTexture: THREE.Texture) => {
-      loadedTexture.minFilter = THREE.LinearFilter;
-      loadedTexture.magFilter = THREE.LinearFilter;
-      loadedTexture.format = THREE.RGBAFormat;
-      loadedTexture.generateMipmaps = false;
+    // The manager hands over a thumbnail first, then sharper versions as they load
+    return textures.acquire(photo.url, (loadedTexture) => {
       setTexture(loadedTexture);
-      setIsLoading(false);
-    };
-
-    const handleError = () => {
-      setHasError(true);
-      setIsLoading(false);
-    };
+      if (loadedTexture) setIsLoading(false);
+    });
+  }, [photo.url, textures]);
 
-    const imageUrl = photo.url.includes('?') 
-      ? `${photo.url}&t=${Date.now()}`
-      : `${photo.url}?t=${Date.now()}`;
+  // Ask for a sharper texture when the photo is big on screen; checked a couple of
+  // times a second, staggered by slot so all meshes don't measure on the same frame
+  useFrame((state) => {
+    if (!meshRef.current || !photo.url) return;
+    const frame = state.gl.info.render.frame;
+    if ((frame + photo.slotIndex) % TEXTURE_TIER_CHECK_FRAMES !== 0) return;
 
-    loader.load(imageUrl, handleLoad, undefined, handleError);
+    const perspective = camera as THREE.PerspectiveCamera;
+    const distance = Math.max(0.01, camera.position.distanceTo(meshRef.current.position));
+    const fovHeight = 2 * distance * Math.tan(THREE.MathUtils.degToRad(perspective.fov || 75) / 2);
+    const screenHeight = ((size || 4.0) / fovHeight) * state.size.height * state.viewport.dpr;
 
-    return () => {
-      if (texture) {
-        texture.dispose();
-      }
-    };
-  }, [photo.url]);
+    textures.request(photo.url, tierForScreenHeight(screenHeight));
+  });
 
   // Camera facing logic
   useFrame(() => {
@@ -387,9 +320,15 @@ const PhotoMesh: React.FC<{
   // Smooth animation frame
   useFrame(() => {
     if (!meshRef.current) return;
+    // The hero copy stands in for this photo while it's being spotlighted
+    meshRef.current.visible = arrival.photoId !== photo.id;
+    // Nothing to show until the engine has produced this slot
+    if (photo.slotIndex >= engine.count) return;
 
-    const targetPosition = new THREE.Vector3(...photo.targetPosition);
-    const targetRotation = new THREE.Euler(...photo.targetRotation);
+    const data = engine.positions;
+    const offset = photo.slotIndex * SLOT_STRIDE;
+    const targetPosition = targetPositionRef.current.set(data[offset], data[offset + 1], data[offset + 2]);
+    const targetRotation = targetRotationRef.current.set(data[offset + 3], data[offset + 4], data[offset + 5]);
 
     // Check if this is a teleport (large distance change)
     const distance = currentPosition.current.distanceTo(targetPosition);
@@ -465,12 +404,26 @@ const PhotoMesh: React.FC<{
     }
   }, [texture, emptySlotColor, pattern, brightness]);
 
+  // Textures belong to the texture manager; only the material is ours to dispose
+  useEffect(() => () => material.dispose(), [material]);
+
+  const selectable = !!onSelect && !!photo.url;
+  useEffect(() => () => {
+    if (selectable) document.body.style.cursor = '';
+  }, [selectable]);
+
   return (
     <mesh
       ref={meshRef}
       material={material}
       castShadow
       receiveShadow
+      onClick={selectable ? (event) => {
+        event.stopPropagation();
+        onSelect!(photo.id);
+      } : undefined}
+      onPointerOver={selectable ? () => { document.body.style.cursor = 'pointer'; } : undefined}
+      onPointerOut={selectable ? () => { document.body.style.cursor = ''; } : undefined}
     >
       {/* Add a very slight bevel to the plane for better light response */}
       <planeGeometry args={[(size || 4.0) * (9/16), size || 4.0]} />
@@ -478,6 +431,212 @@ const PhotoMesh: React.FC<{
   );
 };
 
+// Instanced renderer: photos are packed into atlas pages and each page is drawn with a
+// single InstancedMesh, so thousands of photos cost a handful of draw calls
+const ATLAS_INSTANCE_SHADER_KEY = 'atlas-instanced-photo';
+
+const createAtlasMaterial = (texture: THREE.Texture, brightness: number) => {
+  const material = new THREE.MeshStandardMaterial({
+    map: texture,
+    side: THREE.DoubleSide,
+    toneMapped: false,
+  });
+  material.color.setScalar(brightness);
+
+  // Shift each instance's UVs onto its own tile
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        '#include <common>',
+        '#include <common>\nattribute vec2 atlasOffset;\nattribute vec2 atlasScale;'
+      )
+      .replace(
+        '#include <uv_vertex>',
+        '#include <uv_vertex>\n#ifdef USE_MAP\nvMapUv = vMapUv * atlasScale + atlasOffset;\n#endif'
+      );
+  };
+  material.customProgramCacheKey = () => ATLAS_INSTANCE_SHADER_KEY;
+  return material;
+};
+
+type AtlasBatch = {
+  mesh: THREE.InstancedMesh<THREE.BufferGeometry, THREE.Material>;
+  slots: Int32Array;
+};
+
+const InstancedPhotos: React.FC<{
+  photos: SlottedPhoto[];
+  engine: PatternEngine;
+  arrival: ArrivalState;
+  size: number;
+  emptySlotColor: string;
+  shouldFaceCamera: boolean;
+  brightness: number;
+  photoCount: number;
+  onSelect?: (photoId: string) => void;
+}> = ({ photos, engine, arrival, size, emptySlotColor, shouldFaceCamera, brightness, photoCount, onSelect }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const { camera } = useThree();
+  const batchesRef = useRef<AtlasBatch[]>([]);
+  const materialsRef = useRef<THREE.MeshStandardMaterial[]>([]);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+  const hidden = useMemo(() => new THREE.Matrix4().makeScale(0, 0, 0), []);
+
+  // Smoothed per-slot state, mirroring PhotoMesh's lerp
+  const currentRef = useRef(new Float32Array(MAX_PATTERN_SLOTS * SLOT_STRIDE));
+  const initializedRef = useRef(new Uint8Array(MAX_PATTERN_SLOTS));
+
+  // Smaller tiles for very large collages keep GPU memory in check
+  const tileWidth = photoCount > 1500 ? 64 : 128;
+  const atlas = useMemo(() => new PhotoAtlas(tileWidth, emptySlotColor), [tileWidth]);
+  useEffect(() => () => {
+    atlas.dispose();
+    // Materials sample this atlas's pages; the batches rebuilt for a new atlas need new ones
+    materialsRef.current.forEach(material => material.dispose());
+    materialsRef.current = [];
+  }, [atlas]);
+
+  const geometry = useMemo(() => new THREE.PlaneGeometry(size * (9 / 16), size), [size]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useEffect(() => {
+    atlas.setEmptyColor(emptySlotColor);
+  }, [atlas, emptySlotColor]);
+
+  useEffect(() => {
+    materialsRef.current.forEach(material => material.color.setScalar(brightness));
+  }, [brightness]);
+
+  // Rebuild the batches whenever slot assignments change
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    atlas.sync(photos);
+
+    // Group slots by the atlas page their photo lives on
+    const slotsByPage: number[][] = atlas.pages.map(() => []);
+    const tileBySlot = new Map<number, ReturnType<PhotoAtlas['tileFor']>>();
+    for (const photo of photos) {
+      const tile = (photo.url && atlas.tileFor(photo.id)) || atlas.emptyTile;
+      slotsByPage[tile.page].push(photo.slotIndex);
+      tileBySlot.set(photo.slotIndex, tile);
+    }
+
+    while (materialsRef.current.length < atlas.pages.length) {
+      const page = atlas.pages[materialsRef.current.length];
+      materialsRef.current.push(createAtlasMaterial(page.texture, brightness));
+    }
+
+    batchesRef.current.forEach(batch => {
+      group.remove(batch.mesh);
+      batch.mesh.geometry.dispose();
+      batch.mesh.dispose();
+    });
+
+    const [scaleX, scaleY] = atlas.uvScale;
+
+    batchesRef.current = slotsByPage
+      .map((slots, page): AtlasBatch | null => {
+        if (slots.length === 0) return null;
+
+        // Each batch needs its own per-instance tile attributes
+        const batchGeometry = geometry.clone();
+        const mesh = new THREE.InstancedMesh(batchGeometry, materialsRef.current[page], slots.length);
+        const offsets = new Float32Array(slots.length * 2);
+        const scales = new Float32Array(slots.length * 2);
+        slots.forEach((slot, i) => {
+          const [u, v] = atlas.uvOffset(tileBySlot.get(slot)!);
+          offsets[i * 2] = u;
+          offsets[i * 2 + 1] = v;
+          scales[i * 2] = scaleX;
+          scales[i * 2 + 1] = scaleY;
+          // Hidden until the engine has a position for the slot
+          mesh.setMatrixAt(i, hidden);
+        });
+        batchGeometry.setAttribute('atlasOffset', new THREE.InstancedBufferAttribute(offsets, 2));
+        batchGeometry.setAttribute('atlasScale', new THREE.InstancedBufferAttribute(scales, 2));
+        mesh.castShadow = true;
+        mesh.receiveShadow = true;
+        // Instances spread far beyond the plane's own bounds
+        mesh.frustumCulled = false;
+
+        group.add(mesh);
+        return { mesh, slots: Int32Array.from(slots) };
+      })
+      .filter((batch): batch is AtlasBatch => batch !== null);
+  }, [atlas, photos, geometry, hidden]);
+
+  useEffect(() => () => {
+    batchesRef.current.forEach(batch => {
+      batch.mesh.geometry.dispose();
+      batch.mesh.dispose();
+    });
+  }, []);
+
+  useFrame((state) => {
+    const data = engine.positions;
+    const available = engine.count;
+    const current = currentRef.current;
+    const initialized = initializedRef.current;
+
+    for (const { mesh, slots } of batchesRef.current) {
+      let changed = false;
+
+      for (let i = 0; i < slots.length; i++) {
+        const slot = slots[i];
+        if (slot >= available) continue;
+
+        const offset = slot * SLOT_STRIDE;
+        const dx = data[offset] - current[offset];
+        const dy = data[offset + 1] - current[offset + 1];
+        const dz = data[offset + 2] - current[offset + 2];
+        const isTeleport = !initialized[slot] || Math.sqrt(dx * dx + dy * dy + dz * dz) > TELEPORT_THRESHOLD;
+
+        for (let k = 0; k < SLOT_STRIDE; k++) {
+          const smoothing = k < 3 ? POSITION_SMOOTHING : ROTATION_SMOOTHING;
+          current[offset + k] = isTeleport
+            ? data[offset + k]
+            : current[offset + k] + (data[offset + k] - current[offset + k]) * smoothing;
+        }
+        initialized[slot] = 1;
+
+        dummy.position.set(current[offset], current[offset + 1], current[offset + 2]);
+        if (shouldFaceCamera) {
+          dummy.lookAt(camera.position);
+        } else {
+          dummy.rotation.set(current[offset + 3], current[offset + 4], current[offset + 5]);
+        }
+        dummy.updateMatrix();
+        // The hero copy stands in for this photo while it's being spotlighted
+        mesh.setMatrixAt(i, arrival.photoId && slot === arrival.slotIndex ? hidden : dummy.matrix);
+        changed = true;
+      }
+
+      if (changed) {
+        mesh.instanceMatrix.needsUpdate = true;
+        // Raycasting culls against this, so let it be recomputed when next needed
+        mesh.boundingSphere = null;
+      }
+    }
+
+    atlas.flush(state.clock.elapsedTime * 1000);
+  });
+
+  // Instance ids index into a batch's slots; empty slots aren't selectable
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    if (!onSelect || event.instanceId === undefined) return;
+    const batch = batchesRef.current.find(b => b.mesh === event.object);
+    const slot = batch?.slots[event.instanceId];
+    const photo = photos.find(p => p.slotIndex === slot && p.url);
+    if (!photo) return;
+    event.stopPropagation();
+    onSelect(photo.id);
+  };
+
+  return <group ref={groupRef} onClick={onSelect ? handleClick : undefined} />;
+};
+
 // Floor component
 const Floor: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
   if (!settings.floorEnabled) return null;
@@ -527,11 +686,90 @@ const Grid: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
 };
 
 // CameraController component
-const CameraController: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
+const CameraController: React.FC<{
+  settings: SceneSettings;
+  arrival: ArrivalState;
+  photos: SlottedPhoto[];
+  engine: PatternEngine | null;
+  probe?: CameraProbe;
+  inspectedPhotoId?: string | null;
+  input?: CameraInput;
+}> = ({ settings, arrival, photos, engine, probe, inspectedPhotoId, input }) => {
   const { camera } = useThree();
   const controlsRef = useRef<any>();
   const userInteractingRef = useRef(false);
   const lastInteractionTimeRef = useRef(0);
+  // Orbit target to return to after following a new arrival
+  const restTargetRef = useRef<THREE.Vector3 | null>(null);
+  // Fly-through playback: seconds into the loop, and how far the camera has rejoined it
+  const pathTimeRef = useRef(0);
+  const pathBlendRef = useRef(0);
+  const baseFovRef = useRef((camera as THREE.PerspectiveCamera).fov);
+  const directorRef = useRef(new AutoDirector());
+  // Flies to a clicked photo; shares the director's framing
+  const inspectorRef = useRef(new AutoDirector());
+
+  useEffect(() => {
+    const controls = controlsRef.current;
+    if (!controls) return;
+    if (inspectedPhotoId) {
+      inspectorRef.current.focus(inspectedPhotoId, camera, controls.target);
+    } else if (inspectorRef.current.active) {
+      inspectorRef.current.release();
+      // Give the viewer a moment on the wide shot before paths or the director carry on
+      lastInteractionTimeRef.current = Date.now();
+    }
+  }, [inspectedPhotoId, camera]);
+
+  const path = useMemo(
+    () => (settings.cameraMode === 'path' ? createCameraPath(settings.cameraPath, settings.cameraPathEasing) : null),
+    [settings.cameraMode, settings.cameraPath, settings.cameraPathEasing]
+  );
+
+  // Restore the lens when the path stops driving it
+  useEffect(() => {
+    pathTimeRef.current = 0;
+    pathBlendRef.current = 0;
+    if (path) return;
+    const perspective = camera as THREE.PerspectiveCamera;
+    if (perspective.fov !== baseFovRef.current) {
+      perspective.fov = baseFovRef.current;
+      perspective.updateProjectionMatrix();
+    }
+  }, [camera, path]);
+
+  // Expose the live view to the editor for recording keyframes
+  useEffect(() => {
+    if (!probe) return;
+    const perspective = camera as THREE.PerspectiveCamera;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    probe.capture = () => {
+      const target = controlsRef.current?.target ?? new THREE.Vector3(0, settings.cameraHeight * 0.3, 0);
+      return {
+        position: camera.position.toArray().map(round) as CameraPose['position'],
+        target: target.toArray().map(round) as CameraPose['target'],
+        fov: round(perspective.fov),
+      };
+    };
+    probe.goTo = (pose) => {
+      camera.position.fromArray(pose.position);
+      perspective.fov = pose.fov;
+      perspective.updateProjectionMatrix();
+      if (controlsRef.current) {
+        controlsRef.current.target.fromArray(pose.target);
+        controlsRef.current.update();
+      }
+      // Hold the view for a moment before any path playback takes over again
+      lastInteractionTimeRef.current = Date.now();
+      pathBlendRef.current = 0;
+    };
+
+    return () => {
+      probe.capture = null;
+      probe.goTo = null;
+    };
+  }, [probe, camera, settings.cameraHeight]);
   
   // Initialize camera position
   useEffect(() => {
@@ -581,6 +819,112 @@ const CameraController: React.FC<{ settings: SceneSettings }> = ({ settings }) =
   useFrame((state, delta) => {
     if (!settings.cameraEnabled || !controlsRef.current) return;
 
+    if (inspectorRef.current.active && engine) {
+      const shot = inspectorRef.current.update(
+        delta,
+        INSPECT_TIMING,
+        photos,
+        engine,
+        camera as THREE.PerspectiveCamera,
+        controlsRef.current.target,
+        settings.photoRotation || false,
+        settings.photoSize || 4.0
+      );
+      if (shot) {
+        camera.position.copy(shot.position);
+        controlsRef.current.target.copy(shot.target);
+        controlsRef.current.update();
+        return;
+      }
+    }
+
+    // Keyboard and gamepad steer the camera like a drag would, pausing the automatic modes
+    if (input && (input.orbitX || input.orbitY || input.zoom)) {
+      const target = controlsRef.current.target;
+      const spherical = new THREE.Spherical().setFromVector3(
+        new THREE.Vector3().copy(camera.position).sub(target)
+      );
+      spherical.theta -= input.orbitX * MANUAL_ORBIT_SPEED * delta;
+      spherical.phi = THREE.MathUtils.clamp(
+        spherical.phi - input.orbitY * MANUAL_ORBIT_SPEED * delta,
+        Math.PI / 6,
+        Math.PI - Math.PI / 6
+      );
+      spherical.radius = THREE.MathUtils.clamp(
+        spherical.radius * Math.exp(-input.zoom * MANUAL_ZOOM_SPEED * delta),
+        5,
+        200
+      );
+      camera.position.setFromSpherical(spherical).add(target);
+      controlsRef.current.update();
+      lastInteractionTimeRef.current = Date.now();
+      return;
+    }
+
+    // Ease towards a newly arrived photo's slot, then back to where we were
+    const focus = settings.arrivalCameraFollow && !userInteractingRef.current ? arrival.focus : null;
+    if (focus) {
+      if (!restTargetRef.current) {
+        restTargetRef.current = controlsRef.current.target.clone();
+      }
+      controlsRef.current.target.lerp(focus, ARRIVAL_FOCUS_SMOOTHING);
+      controlsRef.current.update();
+      return;
+    }
+    if (restTargetRef.current) {
+      controlsRef.current.target.lerp(restTargetRef.current, ARRIVAL_FOCUS_SMOOTHING);
+      if (controlsRef.current.target.distanceTo(restTargetRef.current) < 0.05) {
+        controlsRef.current.target.copy(restTargetRef.current);
+        restTargetRef.current = null;
+      }
+      controlsRef.current.update();
+    }
+
+    if (path) {
+      // Hand the camera to the host while they look around, then ease back onto the path
+      if (userInteractingRef.current || Date.now() - lastInteractionTimeRef.current < MANUAL_CAMERA_RESUME_DELAY) {
+        pathBlendRef.current = 0;
+        return;
+      }
+      pathTimeRef.current += delta;
+      pathBlendRef.current = Math.min(1, pathBlendRef.current + delta / PATH_BLEND_SECONDS);
+      const blend = pathBlendRef.current;
+
+      const sample = path.at(pathTimeRef.current);
+      const perspective = camera as THREE.PerspectiveCamera;
+      camera.position.lerp(sample.position, blend);
+      controlsRef.current.target.lerp(sample.target, blend);
+      perspective.fov = THREE.MathUtils.lerp(perspective.fov, sample.fov, blend);
+      perspective.updateProjectionMatrix();
+      controlsRef.current.update();
+      return;
+    }
+
+    if (settings.cameraMode === 'director' && engine) {
+      const director = directorRef.current;
+      if (userInteractingRef.current || Date.now() - lastInteractionTimeRef.current < MANUAL_CAMERA_RESUME_DELAY) {
+        director.reset();
+      } else {
+        const shot = director.update(
+          delta,
+          { holdSeconds: settings.directorHoldSeconds || 5, wideSeconds: settings.directorWideSeconds || 8 },
+          photos,
+          engine,
+          camera as THREE.PerspectiveCamera,
+          controlsRef.current.target,
+          settings.photoRotation || false,
+          settings.photoSize || 4.0
+        );
+        // Between close-ups the wide shot behaves like the orbit camera
+        if (shot) {
+          camera.position.copy(shot.position);
+          controlsRef.current.target.copy(shot.target);
+          controlsRef.current.update();
+          return;
+        }
+      }
+    }
+
     // Auto-rotate only when enabled and user is not interacting
     if (settings.cameraRotationEnabled && !userInteractingRef.current) {
       const offset = new THREE.Vector3().copy(camera.position).sub(controlsRef.current.target);
@@ -606,106 +950,118 @@ const CameraController: React.FC<{ settings: SceneSettings }> = ({ settings }) =
       maxPolarAngle={Math.PI - Math.PI / 6}
       enableDamping={true}
       dampingFactor={0.05}
+      // Orbiting would fight the fly-to while a photo is being inspected
+      enabled={!inspectedPhotoId}
     />
   ) : null;
 };
 
-// FIXED: AnimationController with immediate updates on photo changes
+// AnimationController: assigns photos to slots and drives the pattern engine
 const AnimationController: React.FC<{
   settings: SceneSettings;
   photos: Photo[];
-  onPositionsUpdate: (photos: PhotoWithPosition[]) => void;
-}> = ({ settings, photos, onPositionsUpdate }) => {
+  engine: PatternEngine;
+  wallSync: WallSyncState;
+  paused?: boolean;
+  onSlotsUpdate: (photos: SlottedPhoto[]) => void;
+}> = ({ settings, photos, engine, wallSync, paused, onSlotsUpdate }) => {
   const slotManagerRef = useRef(new SlotManager(settings.photoCount));
-  const lastPhotoCount = useRef(settings.photoCount);
-  
-  // CRITICAL FIX: Immediately update positions when photos array changes
+  const elapsedRef = useRef(0);
+  // Time spent paused is taken out of the pattern clock so it resumes where it stopped
+  const pausedAtRef = useRef<number | null>(null);
+  const pausedTotalRef = useRef(0);
+  const [rotationTick, setRotationTick] = useState(0);
+  const slotPolicy = settings.slotPolicy || 'none';
+  const rotationInterval = settings.slotRotationInterval || 10;
+  const seed = settings.seed ?? 1;
+
+  // Timed overflow policies re-run the assignment on every rotation, lined up with the
+  // wall clock so every screen rotates together
+  useEffect(() => {
+    const slotManager = slotManagerRef.current;
+    slotManager.setPolicy({ policy: slotPolicy, rotationInterval, seed });
+    if (!slotManager.isTimed) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      timer = setTimeout(() => {
+        setRotationTick(tick => tick + 1);
+        schedule();
+      }, slotManager.msUntilRotation());
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [slotPolicy, rotationInterval, seed]);
+
   const currentPhotoIds = useMemo(() => 
     (photos || []).map(p => p.id).sort().join(','), 
     [photos]
   );
   
   const lastPhotoIds = useRef(currentPhotoIds);
-  
-  const updatePositions = useCallback((time: number = 0) => {
+
+  // Slot assignments only change with the photo list or slot count, so this is the only
+  // place the scene re-renders; per-frame motion goes through the engine's buffer
+  useEffect(() => {
     // Safety check for photos - but allow empty array
-    if (!Array.isArray(photos)) {
-      console.warn('🎬 Photos is not an array, using empty array');
-      // Use empty array instead of returning early
-      photos = [];
+    const safePhotos = Array.isArray(photos) ? photos : [];
+    const photoCount = settings.photoCount || 50;
+
+    if (currentPhotoIds !== lastPhotoIds.current) {
+      console.log('🎬 PHOTOS CHANGED: Reassigning slots');
+      console.log('🎬 Old:', lastPhotoIds.current);
+      console.log('🎬 New:', currentPhotoIds);
+      lastPhotoIds.current = currentPhotoIds;
     }
 
-    // Get slot assignments with the current photo array
-    const slotAssignments = slotManagerRef.current.assignSlots(photos);
+    slotManagerRef.current.updateSlotCount(settings.photoCount);
+    const slotAssignments = slotManagerRef.current.assignSlots(safePhotos);
     
-    // Generate pattern positions
-    const pattern = PatternFactory.createPattern(settings.animationPattern || 'grid', settings, photos);
-    const patternState = pattern.generatePositions(time);
-    
-    const photosWithPositions: PhotoWithPosition[] = [];
+    const slottedPhotos: SlottedPhoto[] = [];
     
     // Create photos with assigned slots
-    for (const photo of photos) {
+    for (const photo of safePhotos) {
       const slotIndex = slotAssignments.get(photo.id);
-      if (slotIndex !== undefined && slotIndex < (settings.photoCount || 50)) {
-        photosWithPositions.push({
-          ...photo,
-          targetPosition: patternState.positions[slotIndex] || [0, 0, 0],
-          targetRotation: patternState.rotations?.[slotIndex] || [0, 0, 0],
-          displayIndex: slotIndex,
-          slotIndex,
-        });
+      if (slotIndex !== undefined && slotIndex < photoCount) {
+        slottedPhotos.push({ ...photo, slotIndex });
       }
     }
     
     // Add empty slots for remaining positions - ALWAYS CREATE THESE
-    for (let i = 0; i < (settings.photoCount || 50); i++) {
-      const hasPhoto = photosWithPositions.some(p => p.slotIndex === i);
-      if (!hasPhoto) {
-        photosWithPositions.push({
-          id: `placeholder-${i}`,
-          url: '',
-          targetPosition: patternState.positions[i] || [0, 0, 0],
-          targetRotation: patternState.rotations?.[i] || [0, 0, 0],
-          displayIndex: i,
-          slotIndex: i,
-        });
+    const filledSlots = new Set(slottedPhotos.map(p => p.slotIndex));
+    for (let i = 0; i < photoCount; i++) {
+      if (!filledSlots.has(i)) {
+        slottedPhotos.push({ id: `placeholder-${i}`, url: '', slotIndex: i });
       }
     }
     
     // Sort by slot index and update
-    photosWithPositions.sort((a, b) => a.slotIndex - b.slotIndex);
-    onPositionsUpdate(photosWithPositions);
-  }, [photos, settings, onPositionsUpdate]);
+    slottedPhotos.sort((a, b) => a.slotIndex - b.slotIndex);
+    onSlotsUpdate(slottedPhotos);
+  }, [photos, currentPhotoIds, settings.photoCount, slotPolicy, seed, rotationTick, onSlotsUpdate]);
 
-  // CRITICAL: Immediate update when photos change
   useEffect(() => {
-    if (currentPhotoIds !== lastPhotoIds.current) {
-      console.log('🎬 PHOTOS CHANGED: Immediately updating positions');
-      console.log('🎬 Old:', lastPhotoIds.current);
-      console.log('🎬 New:', currentPhotoIds);
-      
-      // Force immediate position update
-      updatePositions(0);
-      
-      lastPhotoIds.current = currentPhotoIds;
-    }
-  }, [currentPhotoIds, updatePositions]);
-
-  // Update slot manager when photo count changes
-  useEffect(() => {
-    if (settings.photoCount !== lastPhotoCount.current) {
-      slotManagerRef.current.updateSlotCount(settings.photoCount);
-      lastPhotoCount.current = settings.photoCount;
-    }
-  }, [settings.photoCount]);
+    engine.update(settings, Array.isArray(photos) ? photos : [], elapsedRef.current);
+  }, [engine, settings, photos]);
 
   // Regular animation updates
   useFrame((state) => {
+    // Video wall followers run on the leader's clock so every tile shows the same moment
+    const elapsed = state.clock.elapsedTime + wallSync.timeOffset;
+    elapsedRef.current = elapsed;
+
+    if (paused && pausedAtRef.current === null) {
+      pausedAtRef.current = elapsed;
+    } else if (!paused && pausedAtRef.current !== null) {
+      pausedTotalRef.current += elapsed - pausedAtRef.current;
+      pausedAtRef.current = null;
+    }
+    const patternClock = (pausedAtRef.current ?? elapsed) - pausedTotalRef.current;
+
     const time = settings.animationEnabled ? 
-      state.clock.elapsedTime * (settings.animationSpeed / 50) : 0;
+      patternClock * (settings.animationSpeed / 50) : 0;
     
-    updatePositions(time);
+    engine.step(time, elapsed);
   });
 
   return null;
@@ -748,8 +1104,40 @@ const PhotoDebugger: React.FC<{ photos: Photo[] }> = ({ photos }) => {
 };
 
 // Main CollageScene component
-const CollageScene: React.FC<CollageSceneProps> = ({ photos, settings, onSettingsChange }) => {
-  const [photosWithPositions, setPhotosWithPositions] = useState<PhotoWithPosition[]>([]);
+const CollageScene: React.FC<CollageSceneProps> = ({
+  photos,
+  settings,
+  onSettingsChange,
+  cameraProbe,
+  onPhotoSelect,
+  inspectedPhotoId,
+  cameraInput,
+  animationPaused,
+  videoWall
+}) => {
+  const [slottedPhotos, setSlottedPhotos] = useState<SlottedPhoto[]>([]);
+  const [engine, setEngine] = useState<PatternEngine | null>(null);
+  const [textures, setTextures] = useState<TextureManager | null>(null);
+  const [arrival] = useState(createArrivalState);
+  const [wallSync] = useState(createWallSyncState);
+
+  // One engine (and worker) per mounted scene
+  useEffect(() => {
+    const patternEngine = new PatternEngine();
+    setEngine(patternEngine);
+    return () => patternEngine.dispose();
+  }, []);
+
+  // Photo textures are shared by every mesh in the scene
+  useEffect(() => {
+    const textureManager = new TextureManager(settings.textureMemoryBudget || 512);
+    setTextures(textureManager);
+    return () => textureManager.dispose();
+  }, []);
+
+  useEffect(() => {
+    textures?.setBudget(settings.textureMemoryBudget || 512);
+  }, [textures, settings.textureMemoryBudget]);
 
   const backgroundStyle = useMemo(() => {
     if (settings.backgroundGradient) {
@@ -791,28 +1179,83 @@ const CollageScene: React.FC<CollageSceneProps> = ({ photos, settings, onSetting
         linear={true}
       >
         <BackgroundRenderer settings={settings} />
-        <CameraController settings={settings} />
+        {/* Follower tiles of a video wall take their camera from the leader */}
+        {!isWallFollower(videoWall?.tile) && (
+          <CameraController
+            settings={settings}
+            arrival={arrival}
+            photos={slottedPhotos}
+            engine={engine}
+            probe={cameraProbe}
+            inspectedPhotoId={inspectedPhotoId}
+            input={cameraInput}
+          />
+        )}
+        {videoWall && (
+          <VideoWall
+            tile={videoWall.tile}
+            collageId={videoWall.collageId}
+            sync={wallSync}
+            arrival={arrival}
+            show={videoWall.show}
+            onShow={videoWall.onShow}
+          />
+        )}
         <SceneLighting settings={settings} />
         <Floor settings={settings} />
         <Grid settings={settings} />
         
-        <AnimationController
-          settings={settings}
-          photos={photos}
-          onPositionsUpdate={setPhotosWithPositions}
-        />
+        {engine && (
+          <AnimationController
+            settings={settings}
+            photos={photos}
+            engine={engine}
+            wallSync={wallSync}
+            paused={animationPaused}
+            onSlotsUpdate={setSlottedPhotos}
+          />
+        )}
         
         <PhotoDebugger photos={photos} />
         
-        {photosWithPositions.map((photo) => (
+        {engine && settings.renderMode === 'instanced' && (
+          <InstancedPhotos
+            photos={slottedPhotos}
+            engine={engine}
+            arrival={arrival}
+            size={settings.photoSize || 4.0}
+            emptySlotColor={settings.emptySlotColor || '#1A1A1A'}
+            shouldFaceCamera={settings.photoRotation || false}
+            brightness={settings.photoBrightness || 1.0}
+            photoCount={settings.photoCount}
+            onSelect={onPhotoSelect}
+          />
+        )}
+
+        {engine && textures && (
+          <HeroArrival
+            settings={settings}
+            photos={slottedPhotos}
+            engine={engine}
+            textures={textures}
+            arrival={arrival}
+            follow={isWallFollower(videoWall?.tile) ? wallSync : undefined}
+          />
+        )}
+
+        {engine && textures && settings.renderMode !== 'instanced' && slottedPhotos.map((photo) => (
           <PhotoMesh
             key={`${photo.id}-${photo.slotIndex}-${photos.length}-v3`}
             photo={photo}
+            engine={engine}
+            textures={textures}
+            arrival={arrival}
             size={settings.photoSize || 4.0}
             emptySlotColor={settings.emptySlotColor || '#1A1A1A'}
             pattern={settings.animationPattern || 'grid'}
             shouldFaceCamera={settings.photoRotation || false}
             brightness={settings.photoBrightness || 1.0}
+            onSelect={onPhotoSelect}
           />
         ))}
       </Canvas>
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { type SceneSettings } from '../../store/sceneStore';
+import { useCollageStore } from '../../store/collageStore';
+import { ease } from '../../lib/easing';
+import { PatternEngine } from './patterns/PatternEngine';
+import { SLOT_STRIDE } from './patterns/PatternBuffer';
+import { TextureManager } from './TextureManager';
+import { type WallSyncState } from './VideoWall';
+
+type ArrivingPhoto = {
+  id: string;
+  url: string;
+  caption?: string | null;
+  slotIndex?: number;
+};
+
+// Shared with the wall renderers and the camera: the arriving photo is hidden in the
+// wall while its hero copy is on screen, and the camera may ease towards its slot
+export type ArrivalState = {
+  photoId: string | null;
+  slotIndex: number;
+  // Scene clock time the sequence started
+  startedAt: number;
+  focus: THREE.Vector3 | null;
+};
+
+export const createArrivalState = (): ArrivalState => ({ photoId: null, slotIndex: -1, startedAt: 0, focus: null });
+
+// Sequence timings in seconds; the hold comes from settings
+const FLY_IN_DURATION = 1.2;
+const FLY_OUT_DURATION = 1.6;
+const ARRIVAL_GAP = 0.6;
+// How long the camera keeps looking at the slot after the photo lands
+const FOCUS_LINGER = 1.5;
+// Fraction of the view height the photo fills while it's held
+const HERO_SCREEN_FRACTION = 0.6;
+
+type ActiveArrival = {
+  photo: ArrivingPhoto;
+  startedAt: number;
+};
+
+// Plays queued realtime arrivals one at a time: fly in front of the camera, hold with
+// the caption, then travel to the photo's slot in the pattern. Video wall followers
+// pass the wall's sync state and play the leader's arrivals instead of their own queue
+const HeroArrival: React.FC<{
+  settings: SceneSettings;
+  photos: ArrivingPhoto[];
+  engine: PatternEngine;
+  textures: TextureManager;
+  arrival: ArrivalState;
+  follow?: WallSyncState;
+}> = ({ settings, photos, engine, textures, arrival, follow }) => {
+  const { camera } = useThree();
+  const meshRef = useRef<THREE.Mesh>(null);
+  const captionRef = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState<ActiveArrival | null>(null);
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+  const lastFinishedRef = useRef(-Infinity);
+  const lastFollowedRef = useRef<string | null>(null);
+  const slotLookupRef = useRef(new Map<string, number>());
+
+  // Scratch objects reused every frame
+  const frontPosition = useRef(new THREE.Vector3());
+  const startPosition = useRef(new THREE.Vector3());
+  const slotPosition = useRef(new THREE.Vector3());
+  const slotQuaternion = useRef(new THREE.Quaternion());
+  const slotEuler = useRef(new THREE.Euler());
+  const lookTarget = useRef(new THREE.Object3D());
+
+  const size = settings.photoSize || 4.0;
+  const holdDuration = settings.arrivalHoldSeconds ?? 4;
+
+  useEffect(() => {
+    slotLookupRef.current = new Map(photos.map(photo => [photo.id, photo.slotIndex ?? -1]));
+  }, [photos]);
+
+  useEffect(() => {
+    if (!active?.photo.url) return;
+    const release = textures.acquire(active.photo.url, setTexture);
+    // The hero fills most of the screen, so go straight for the original
+    textures.request(active.photo.url, 'full');
+    return () => {
+      release();
+      setTexture(null);
+    };
+  }, [active, textures]);
+
+  const material = useMemo(() => new THREE.MeshBasicMaterial({
+    map: texture,
+    side: THREE.DoubleSide,
+    toneMapped: false,
+    transparent: true,
+  }), [texture]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useEffect(() => {
+    material.color.setScalar(settings.photoBrightness || 1.0);
+  }, [material, settings.photoBrightness]);
+
+  // Release the wall photo if the scene unmounts mid-sequence
+  useEffect(() => () => {
+    arrival.photoId = null;
+    arrival.slotIndex = -1;
+    arrival.focus = null;
+  }, [arrival]);
+
+  const start = (photo: ArrivingPhoto, startedAt: number) => {
+    console.log(`🌟 ARRIVAL: Spotlighting new photo ${photo.id.slice(-4)}`);
+    const slotIndex = slotLookupRef.current.get(photo.id) ?? -1;
+    arrival.photoId = photo.id;
+    arrival.slotIndex = slotIndex;
+    arrival.startedAt = startedAt;
+    setActive({ photo: { ...photo, slotIndex }, startedAt });
+  };
+
+  useFrame((state) => {
+    const now = state.clock.elapsedTime;
+
+    if (!active) {
+      const store = useCollageStore.getState();
+      if (follow) {
+        if (store.pendingArrivals.length > 0) store.clearArrivals();
+        const leading = follow.arrival;
+        if (!leading || leading.id === lastFollowedRef.current) return;
+        const photo = store.photos.find(p => p.id === leading.id);
+        if (!photo) return;
+        lastFollowedRef.current = leading.id;
+        // Convert to our clock so the sequence lines up across the tiles
+        start(photo, leading.startedAt - follow.timeOffset);
+        return;
+      }
+      if (store.pendingArrivals.length === 0) return;
+      // Don't save up arrivals to replay later if the spotlight is turned on mid-event
+      if (!settings.arrivalSpotlightEnabled) {
+        store.clearArrivals();
+        return;
+      }
+      if (now - lastFinishedRef.current < ARRIVAL_GAP) return;
+
+      const next = store.takeArrival();
+      if (next) start(next, now);
+      return;
+    }
+
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const elapsed = now - active.startedAt;
+    const flyOutStart = FLY_IN_DURATION + holdDuration;
+    const end = flyOutStart + FLY_OUT_DURATION;
+
+    // Slot may have been assigned (or changed) since the sequence started
+    const slotIndex = slotLookupRef.current.get(active.photo.id) ?? -1;
+    arrival.slotIndex = slotIndex;
+    const hasSlot = slotIndex >= 0 && slotIndex < engine.count;
+
+    if (elapsed >= end) {
+      // Linger on the slot briefly so a following camera has time to settle
+      if (elapsed >= end + FOCUS_LINGER || !hasSlot) {
+        arrival.focus = null;
+        lastFinishedRef.current = now;
+        setActive(null);
+      }
+      arrival.photoId = null;
+      mesh.visible = false;
+      return;
+    }
+
+    // Pose in front of the camera, sized to fill part of the view
+    const perspective = camera as THREE.PerspectiveCamera;
+    const halfFov = THREE.MathUtils.degToRad(perspective.fov || 75) / 2;
+    const distance = size / (2 * Math.tan(halfFov) * HERO_SCREEN_FRACTION);
+    camera.getWorldDirection(frontPosition.current);
+    frontPosition.current.multiplyScalar(distance).add(camera.position);
+
+    mesh.visible = true;
+    let captionOpacity = 0;
+
+    if (elapsed < FLY_IN_DURATION) {
+      // Rise in from below the frame
+      const t = ease('easeOutBack', elapsed / FLY_IN_DURATION);
+      const drop = 2 * distance * Math.tan(halfFov);
+      startPosition.current.set(0, -drop, 0).applyQuaternion(camera.quaternion).add(frontPosition.current);
+      mesh.position.lerpVectors(startPosition.current, frontPosition.current, t);
+      mesh.quaternion.copy(camera.quaternion);
+      mesh.scale.setScalar(Math.max(0.01, t));
+      captionOpacity = Math.max(0, (elapsed / FLY_IN_DURATION) * 2 - 1);
+    } else if (elapsed < flyOutStart) {
+      mesh.position.copy(frontPosition.current);
+      mesh.quaternion.copy(camera.quaternion);
+      mesh.scale.setScalar(1);
+      captionOpacity = 1;
+    } else {
+      const t = ease('easeInOutCubic', (elapsed - flyOutStart) / FLY_OUT_DURATION);
+
+      if (hasSlot) {
+        const data = engine.positions;
+        const offset = slotIndex * SLOT_STRIDE;
+        slotPosition.current.set(data[offset], data[offset + 1], data[offset + 2]);
+        if (settings.photoRotation) {
+          lookTarget.current.position.copy(slotPosition.current);
+          lookTarget.current.lookAt(camera.position);
+          slotQuaternion.current.copy(lookTarget.current.quaternion);
+        } else {
+          slotEuler.current.set(data[offset + 3], data[offset + 4], data[offset + 5]);
+          slotQuaternion.current.setFromEuler(slotEuler.current);
+        }
+        arrival.focus = settings.arrivalCameraFollow ? slotPosition.current : null;
+        mesh.scale.setScalar(1);
+      } else {
+        // No free slot: shrink away into the collage instead
+        slotPosition.current.set(0, settings.cameraHeight * 0.3, 0);
+        slotQuaternion.current.copy(camera.quaternion);
+        mesh.scale.setScalar(Math.max(0.01, 1 - t));
+      }
+
+      mesh.position.lerpVectors(frontPosition.current, slotPosition.current, t);
+      mesh.quaternion.copy(camera.quaternion).slerp(slotQuaternion.current, t);
+      captionOpacity = Math.max(0, 1 - t * 3);
+    }
+
+    if (captionRef.current) {
+      captionRef.current.style.opacity = String(captionOpacity);
+    }
+  });
+
+  if (!active) return null;
+
+  const caption = settings.arrivalShowCaption !== false ? active.photo.caption?.trim() : '';
+
+  return (
+    <mesh ref={meshRef} material={material} visible={false} renderOrder={10}>
+      <planeGeometry args={[size * (9 / 16), size]} />
+      {caption && (
+        <Html center position={[0, -size * 0.58, 0]} style={{ pointerEvents: 'none' }}>
+          <div
+            ref={captionRef}
+            className="px-6 py-3 bg-black/60 rounded-xl text-white text-2xl font-semibold text-center max-w-[60vw] whitespace-pre-wrap"
+            style={{ opacity: 0, textShadow: '2px 2px 4px rgba(0,0,0,0.8)' }}
+          >
+            {caption}
+          </div>
+        </Html>
+      )}
+    </mesh>
+  );
+};
+
+export default HeroArrival;
@@ -0,0 +1,251 @@
+import * as THREE from 'three';
+import { getResizedImageUrl, resizeSupport } from '../../lib/supabase';
+
+export type AtlasTile = {
+  page: number;
+  tile: number;
+};
+
+type AtlasPage = {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+  texture: THREE.CanvasTexture;
+  dirty: boolean;
+  lastUpload: number;
+};
+
+type AtlasPhoto = {
+  id: string;
+  url: string;
+};
+
+const PAGE_SIZE = 2048;
+const MAX_CONCURRENT_LOADS = 6;
+// Re-uploading a 2048² page is expensive, so batch tile updates per page
+const UPLOAD_INTERVAL = 250;
+// Tiles are at most 128px wide, so a small server-side resize is plenty
+const SOURCE_WIDTH = 256;
+
+// Packs photos into 9:16 tiles on large canvas pages so the instanced renderer can draw
+// hundreds of photos per material. Tile 0 of page 0 is reserved for empty slots.
+export class PhotoAtlas {
+  readonly tileWidth: number;
+  readonly tileHeight: number;
+  readonly columns: number;
+  readonly tilesPerPage: number;
+  readonly pages: AtlasPage[] = [];
+
+  private tiles = new Map<string, AtlasTile>();
+  private urls = new Map<string, string>();
+  // Photos whose image has been drawn into their tile
+  private loaded = new Set<string>();
+  private freeTiles: AtlasTile[] = [];
+  private nextTile = 1;
+  private queue: AtlasPhoto[] = [];
+  private activeLoads = 0;
+  private emptyColor: string;
+  private disposed = false;
+
+  constructor(tileWidth: number, emptyColor: string) {
+    this.tileWidth = tileWidth;
+    this.tileHeight = Math.round(tileWidth * (16 / 9));
+    this.columns = Math.floor(PAGE_SIZE / this.tileWidth);
+    this.tilesPerPage = this.columns * Math.floor(PAGE_SIZE / this.tileHeight);
+    this.emptyColor = emptyColor;
+    this.addPage();
+    this.fillTile(this.emptyTile);
+  }
+
+  get emptyTile(): AtlasTile {
+    return { page: 0, tile: 0 };
+  }
+
+  tileFor(photoId: string): AtlasTile | undefined {
+    return this.tiles.get(photoId);
+  }
+
+  // UV offset of a tile's bottom-left corner (canvas textures are flipped on upload)
+  uvOffset(tile: AtlasTile): [number, number] {
+    const column = tile.tile % this.columns;
+    const row = Math.floor(tile.tile / this.columns);
+    return [
+      (column * this.tileWidth) / PAGE_SIZE,
+      1 - ((row + 1) * this.tileHeight) / PAGE_SIZE,
+    ];
+  }
+
+  get uvScale(): [number, number] {
+    return [this.tileWidth / PAGE_SIZE, this.tileHeight / PAGE_SIZE];
+  }
+
+  // Allocates tiles for new photos, frees tiles of removed ones and queues image loads
+  sync(photos: AtlasPhoto[]) {
+    const current = new Set<string>();
+
+    for (const photo of photos) {
+      if (!photo.url) continue;
+      current.add(photo.id);
+
+      const existing = this.tiles.get(photo.id);
+      if (existing && this.urls.get(photo.id) === photo.url) continue;
+
+      const tile = existing || this.allocateTile();
+      this.tiles.set(photo.id, tile);
+      this.urls.set(photo.id, photo.url);
+      this.loaded.delete(photo.id);
+      this.fillTile(tile);
+      this.queue.push(photo);
+    }
+
+    for (const [photoId, tile] of this.tiles) {
+      if (!current.has(photoId)) {
+        this.tiles.delete(photoId);
+        this.urls.delete(photoId);
+        this.loaded.delete(photoId);
+        this.fillTile(tile);
+        this.freeTiles.push(tile);
+      }
+    }
+
+    this.pump();
+  }
+
+  setEmptyColor(color: string) {
+    if (color === this.emptyColor) return;
+    this.emptyColor = color;
+    // Repaint every tile showing the empty colour: the shared empty tile, freed tiles
+    // and tiles of photos still loading, on whichever page they are
+    this.fillTile(this.emptyTile);
+    this.freeTiles.forEach(tile => this.fillTile(tile));
+    for (const [photoId, tile] of this.tiles) {
+      if (!this.loaded.has(photoId)) this.fillTile(tile);
+    }
+  }
+
+  // Uploads changed pages to the GPU; call once per frame
+  flush(now: number) {
+    for (const page of this.pages) {
+      if (page.dirty && now - page.lastUpload >= UPLOAD_INTERVAL) {
+        page.texture.needsUpdate = true;
+        page.dirty = false;
+        page.lastUpload = now;
+      }
+    }
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.queue = [];
+    this.pages.forEach(page => page.texture.dispose());
+  }
+
+  private allocateTile(): AtlasTile {
+    const reused = this.freeTiles.pop();
+    if (reused) return reused;
+
+    const index = this.nextTile++;
+    const tile = { page: Math.floor(index / this.tilesPerPage), tile: index % this.tilesPerPage };
+    while (this.pages.length <= tile.page) {
+      this.addPage();
+    }
+    return tile;
+  }
+
+  private addPage() {
+    const canvas = document.createElement('canvas');
+    canvas.width = PAGE_SIZE;
+    canvas.height = PAGE_SIZE;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = this.emptyColor;
+    context.fillRect(0, 0, PAGE_SIZE, PAGE_SIZE);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    // No mipmaps: neighbouring tiles would bleed into each other at small sizes
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.generateMipmaps = false;
+
+    this.pages.push({ canvas, context, texture, dirty: true, lastUpload: 0 });
+    console.log(`🧩 ATLAS: Added page ${this.pages.length} (${this.tilesPerPage} tiles of ${this.tileWidth}x${this.tileHeight})`);
+  }
+
+  private tileRect(tile: AtlasTile) {
+    const column = tile.tile % this.columns;
+    const row = Math.floor(tile.tile / this.columns);
+    return { x: column * this.tileWidth, y: row * this.tileHeight };
+  }
+
+  private fillTile(tile: AtlasTile) {
+    const page = this.pages[tile.page];
+    if (!page) return;
+    const { x, y } = this.tileRect(tile);
+    page.context.fillStyle = this.emptyColor;
+    page.context.fillRect(x, y, this.tileWidth, this.tileHeight);
+    page.dirty = true;
+  }
+
+  private drawTile(tile: AtlasTile, image: HTMLImageElement) {
+    const page = this.pages[tile.page];
+    if (!page) return;
+    const { x, y } = this.tileRect(tile);
+
+    // Cover-crop the photo to the tile's 9:16 aspect, like the mesh renderer's plane
+    const tileAspect = this.tileWidth / this.tileHeight;
+    const imageAspect = image.width / image.height;
+    let sx = 0, sy = 0, sw = image.width, sh = image.height;
+    if (imageAspect > tileAspect) {
+      sw = image.height * tileAspect;
+      sx = (image.width - sw) / 2;
+    } else {
+      sh = image.width / tileAspect;
+      sy = (image.height - sh) / 2;
+    }
+
+    page.context.drawImage(image, sx, sy, sw, sh, x, y, this.tileWidth, this.tileHeight);
+    page.dirty = true;
+  }
+
+  private pump() {
+    while (this.activeLoads < MAX_CONCURRENT_LOADS && this.queue.length > 0) {
+      const photo = this.queue.shift()!;
+      // Skip photos removed or replaced while they waited in the queue
+      if (this.urls.get(photo.id) !== photo.url) continue;
+
+      this.activeLoads++;
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+
+      const done = () => {
+        this.activeLoads--;
+        if (!this.disposed) this.pump();
+      };
+
+      const resizedUrl = resizeSupport.available ? getResizedImageUrl(photo.url, SOURCE_WIDTH) : photo.url;
+      // Set when the resized copy failed and this photo fell back to its original
+      let retried = false;
+
+      image.onload = () => {
+        if (resizedUrl !== photo.url) {
+          if (retried) resizeSupport.resizedFailed(photo.url);
+          else resizeSupport.resizedLoaded();
+        }
+        const tile = this.tiles.get(photo.id);
+        if (!this.disposed && tile && this.urls.get(photo.id) === photo.url) {
+          this.drawTile(tile, image);
+          this.loaded.add(photo.id);
+        }
+        done();
+      };
+      image.onerror = () => {
+        if (!retried && resizedUrl !== photo.url) {
+          retried = true;
+          image.src = photo.url;
+          return;
+        }
+        console.warn(`🧩 ATLAS: Failed to load photo ${photo.id.slice(-4)}`);
+        done();
+      };
+      image.src = resizedUrl;
+    }
+  }
+}
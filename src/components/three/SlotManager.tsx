@@ -0,0 +1,226 @@
+import { hashSeed, randomFor } from '../../lib/random';
+
+// What happens once there are more photos than slots
+export type SlotPolicy = 'none' | 'replace-oldest' | 'rotate' | 'weighted' | 'newest';
+
+export const SLOT_POLICY_OPTIONS: { value: SlotPolicy; label: string; description: string }[] = [
+  { value: 'none', label: 'Keep First Photos', description: 'Extra photos wait until a slot frees up' },
+  { value: 'replace-oldest', label: 'Replace Oldest', description: 'Each new upload takes the oldest photo\'s place' },
+  { value: 'rotate', label: 'Rotate All', description: 'Cycle through every photo on a timer' },
+  { value: 'weighted', label: 'Weighted Shuffle', description: 'Random rotation that favours recent uploads' },
+  { value: 'newest', label: 'Newest Always Visible', description: 'Recent uploads stay up, the rest rotate' },
+];
+
+type SlotPhoto = {
+  id: string;
+  created_at?: string;
+  // Set by hosts from the moderation page
+  pinned_slot?: number | null;
+  featured?: boolean;
+};
+
+type SlotPolicyOptions = {
+  policy: SlotPolicy;
+  // Seconds between rotations for the timed policies
+  rotationInterval: number;
+  // The collage's layout seed, so every screen showing it agrees on the slots
+  seed: number;
+};
+
+// Fraction of the wall swapped out on each rotation
+const ROTATION_FRACTION = 0.1;
+// Share of the slots reserved for the newest uploads under the 'newest' policy
+const NEWEST_SHARE = 0.5;
+// The newest upload is this many times more likely to be picked than the oldest
+const WEIGHTED_RECENCY_BIAS = 4;
+// Hashed slot choices each photo tries before falling back to the first free slot
+const PROBE_ROUNDS = 8;
+
+const createdTime = (photo: SlotPhoto) => (photo.created_at ? new Date(photo.created_at).getTime() : 0);
+
+// Oldest first, falling back to id so the order is stable
+const byCreation = (a: SlotPhoto, b: SlotPhoto) => {
+  if (a.created_at && b.created_at && a.created_at !== b.created_at) {
+    return createdTime(a) - createdTime(b);
+  }
+  return a.id.localeCompare(b.id);
+};
+
+// Deterministic slot assignment: the layout is a pure function of the photo list, the
+// settings and the wall clock, so mirrored projectors and multi-screen walls match
+// without talking to each other
+export class SlotManager {
+  private slotAssignments = new Map<string, number>(); // photoId -> slotIndex
+  private totalSlots = 0;
+  private options: SlotPolicyOptions = { policy: 'none', rotationInterval: 10, seed: 1 };
+
+  constructor(totalSlots: number) {
+    this.updateSlotCount(totalSlots);
+  }
+
+  setPolicy(options: SlotPolicyOptions) {
+    this.options = options;
+  }
+
+  // A photo's pinned slot, if it has one that exists at the current photo count
+  private pinnedSlot(photo: SlotPhoto): number | undefined {
+    const slot = photo.pinned_slot;
+    return slot !== null && slot !== undefined && slot >= 0 && slot < this.totalSlots ? slot : undefined;
+  }
+
+  // Whether the policy needs assignSlots to be called periodically, not just on changes
+  get isTimed(): boolean {
+    return this.options.policy === 'rotate' || this.options.policy === 'weighted' || this.options.policy === 'newest';
+  }
+
+  // Milliseconds until the next rotation; rotations happen on wall-clock boundaries so
+  // every screen swaps photos at the same moment
+  msUntilRotation(now = Date.now()): number {
+    const intervalMs = this.options.rotationInterval * 1000;
+    return intervalMs - (now % intervalMs);
+  }
+
+  updateSlotCount(newTotal: number) {
+    this.totalSlots = newTotal;
+  }
+
+  assignSlots(photos: SlotPhoto[], now = Date.now()): Map<string, number> {
+    // Safety check for photos array - but allow empty array
+    if (!Array.isArray(photos)) {
+      console.warn('🎬 SLOT MANAGER: Photos is not an array, using empty array');
+      photos = [];
+    }
+
+    // Sort by creation rather than trusting the order the list arrived in, which
+    // differs between screens depending on when they loaded
+    const sortedPhotos = [...photos].sort(byCreation);
+    const assignments = new Map<string, number>();
+    const occupied = new Set<number>();
+
+    // Pinned photos claim their slot first; the oldest pin wins a clash
+    for (const photo of sortedPhotos) {
+      const slot = this.pinnedSlot(photo);
+      if (slot === undefined || occupied.has(slot)) continue;
+      assignments.set(photo.id, slot);
+      occupied.add(slot);
+    }
+
+    const unpinned = sortedPhotos.filter(photo => !assignments.has(photo.id));
+    const visible = this.visiblePhotos(unpinned, this.totalSlots - occupied.size, now);
+    this.placeInSlots(visible, assignments, occupied);
+
+    this.logChanges(assignments);
+    this.slotAssignments = assignments;
+    return new Map(assignments);
+  }
+
+  // Each photo tries a fixed sequence of hashed slots, so it lands in the same place on
+  // every screen and mostly keeps that place as other photos come and go
+  private placeInSlots(photos: SlotPhoto[], assignments: Map<string, number>, occupied: Set<number>) {
+    if (this.totalSlots <= 0) return;
+    let pending = photos;
+
+    for (let round = 0; round < PROBE_ROUNDS && pending.length > 0; round++) {
+      const unplaced: SlotPhoto[] = [];
+      for (const photo of pending) {
+        // Earlier photos in the list win contested slots
+        const slot = hashSeed(this.options.seed, photo.id, round) % this.totalSlots;
+        if (occupied.has(slot)) {
+          unplaced.push(photo);
+          continue;
+        }
+        assignments.set(photo.id, slot);
+        occupied.add(slot);
+      }
+      pending = unplaced;
+    }
+
+    // Whoever is left takes the remaining slots in order
+    let slot = 0;
+    for (const photo of pending) {
+      while (slot < this.totalSlots && occupied.has(slot)) slot++;
+      if (slot >= this.totalSlots) break;
+      assignments.set(photo.id, slot);
+      occupied.add(slot);
+    }
+  }
+
+  // Which photos are on the wall when there are more than `capacity`. Featured photos
+  // always are; the overflow policy picks from the rest
+  private visiblePhotos(sortedPhotos: SlotPhoto[], capacity: number, now: number): SlotPhoto[] {
+    if (sortedPhotos.length <= capacity) return sortedPhotos;
+    if (capacity <= 0) return [];
+
+    const featured = sortedPhotos.filter(photo => photo.featured);
+    if (featured.length >= capacity) return featured.slice(0, capacity);
+
+    const rest = sortedPhotos.filter(photo => !photo.featured);
+    return [...featured, ...this.selectOverflow(rest, capacity - featured.length, now)];
+  }
+
+  private selectOverflow(sortedPhotos: SlotPhoto[], room: number, now: number): SlotPhoto[] {
+    const { policy, rotationInterval, seed } = this.options;
+    const epoch = Math.floor(now / (rotationInterval * 1000));
+    const batch = Math.max(1, Math.round(this.totalSlots * ROTATION_FRACTION));
+
+    switch (policy) {
+      case 'none':
+        return sortedPhotos.slice(0, room);
+      case 'replace-oldest':
+        return sortedPhotos.slice(sortedPhotos.length - room);
+      case 'rotate':
+        return rotatingWindow(sortedPhotos, room, epoch * batch);
+      case 'newest': {
+        const keep = Math.min(room, Math.ceil(this.totalSlots * NEWEST_SHARE));
+        const older = sortedPhotos.slice(0, sortedPhotos.length - keep);
+        const newest = sortedPhotos.slice(sortedPhotos.length - keep);
+        return [...rotatingWindow(older, room - keep, epoch * batch), ...newest];
+      }
+      case 'weighted': {
+        // Weighted sampling via random keys (u^(1/w), highest keys win). Each photo
+        // re-rolls its key every few rotations, staggered so only about a batch of the
+        // wall changes each time; newer uploads get heavier weights
+        const generations = Math.max(1, Math.round(1 / ROTATION_FRACTION));
+        const lastIndex = Math.max(1, sortedPhotos.length - 1);
+        const keys = new Map(sortedPhotos.map((photo, index) => {
+          const phase = hashSeed(seed, photo.id) % generations;
+          const generation = Math.floor((epoch + phase) / generations);
+          const weight = 1 + (WEIGHTED_RECENCY_BIAS - 1) * (index / lastIndex);
+          return [photo.id, Math.pow(randomFor(seed, photo.id, generation), 1 / weight)];
+        }));
+        const picked = new Set(
+          [...sortedPhotos]
+            .sort((a, b) => keys.get(b.id)! - keys.get(a.id)! || byCreation(a, b))
+            .slice(0, room)
+            .map(photo => photo.id)
+        );
+        return sortedPhotos.filter(photo => picked.has(photo.id));
+      }
+    }
+  }
+
+  private logChanges(next: Map<string, number>) {
+    let placed = 0;
+    let moved = 0;
+    for (const [photoId, slot] of next) {
+      const previous = this.slotAssignments.get(photoId);
+      if (previous === undefined) placed++;
+      else if (previous !== slot) moved++;
+    }
+    const removed = [...this.slotAssignments.keys()].filter(photoId => !next.has(photoId)).length;
+    if (placed || moved || removed) {
+      console.log(`🎬 SLOT: ${placed} placed, ${moved} moved, ${removed} removed (${this.options.policy})`);
+    }
+  }
+}
+
+// `size` consecutive photos starting at `offset`, wrapping around; advancing the offset
+// by a batch each rotation swaps the batch at the front of the window for the next ones
+const rotatingWindow = (sortedPhotos: SlotPhoto[], size: number, offset: number): SlotPhoto[] => {
+  if (size <= 0 || sortedPhotos.length === 0) return [];
+  if (sortedPhotos.length <= size) return sortedPhotos;
+  const start = offset % sortedPhotos.length;
+  const picked = new Set<number>();
+  for (let i = 0; i < size; i++) picked.add((start + i) % sortedPhotos.length);
+  return sortedPhotos.filter((_, index) => picked.has(index));
+};
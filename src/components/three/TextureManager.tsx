@@ -0,0 +1,223 @@
+import * as THREE from 'three';
+import { getResizedImageUrl, resizeSupport } from '../../lib/supabase';
+
+// Resolution tiers, by width in pixels; 'full' is the original upload
+export type TextureTier = 'thumb' | 'medium' | 'full';
+
+const TIER_ORDER: TextureTier[] = ['thumb', 'medium', 'full'];
+const TIER_WIDTHS: Record<Exclude<TextureTier, 'full'>, number> = {
+  thumb: 160,
+  medium: 512,
+};
+
+// On-screen photo height (px) above which a tier is worth loading
+const MEDIUM_TIER_MIN_HEIGHT = 120;
+const FULL_TIER_MIN_HEIGHT = 420;
+
+type TextureListener = (texture: THREE.Texture | null) => void;
+
+type LoadedTexture = {
+  texture: THREE.Texture;
+  tier: TextureTier;
+  bytes: number;
+};
+
+type TextureEntry = {
+  url: string;
+  refs: number;
+  listeners: Set<TextureListener>;
+  // Kept while the photo is on screen so eviction can always fall back to it
+  thumb: LoadedTexture | null;
+  detail: LoadedTexture | null;
+  loading: TextureTier | null;
+  failed: boolean;
+  lastUsed: number;
+};
+
+export const tierForScreenHeight = (pixels: number): TextureTier => {
+  if (pixels >= FULL_TIER_MIN_HEIGHT) return 'full';
+  if (pixels >= MEDIUM_TIER_MIN_HEIGHT) return 'medium';
+  return 'thumb';
+};
+
+const estimateBytes = (texture: THREE.Texture): number => {
+  const image = texture.image as { width?: number; height?: number } | undefined;
+  const pixels = (image?.width || 0) * (image?.height || 0);
+  // RGBA, plus about a third again for the mip chain
+  return Math.round(pixels * 4 * (texture.generateMipmaps ? 4 / 3 : 1));
+};
+
+// Shared texture cache for the collage scene. Meshes subscribe to a photo URL and get
+// a small thumbnail first, then sharper versions as they take up more of the screen.
+// Detail textures are evicted least-recently-used first once the memory budget is hit.
+export class TextureManager {
+  private entries = new Map<string, TextureEntry>();
+  private loader = new THREE.TextureLoader();
+  private budgetBytes: number;
+  private usedBytes = 0;
+  private disposed = false;
+
+  constructor(budgetMb: number) {
+    this.budgetBytes = budgetMb * 1024 * 1024;
+  }
+
+  get memoryUsage(): number {
+    return this.usedBytes;
+  }
+
+  setBudget(budgetMb: number) {
+    this.budgetBytes = budgetMb * 1024 * 1024;
+    this.evict();
+  }
+
+  // Subscribes to a photo's best available texture; returns the unsubscribe function
+  acquire(url: string, listener: TextureListener): () => void {
+    let entry = this.entries.get(url);
+    if (!entry) {
+      entry = {
+        url,
+        refs: 0,
+        listeners: new Set(),
+        thumb: null,
+        detail: null,
+        loading: null,
+        failed: false,
+        lastUsed: performance.now(),
+      };
+      this.entries.set(url, entry);
+    }
+
+    entry.refs++;
+    entry.listeners.add(listener);
+    entry.lastUsed = performance.now();
+    listener(this.best(entry));
+
+    if (!entry.thumb && !entry.loading && !entry.failed) {
+      this.load(entry, 'thumb');
+    }
+
+    return () => {
+      const current = this.entries.get(url);
+      if (!current) return;
+      current.refs = Math.max(0, current.refs - 1);
+      current.listeners.delete(listener);
+      this.evict();
+    };
+  }
+
+  // Called by meshes with the tier their current on-screen size calls for
+  request(url: string, tier: TextureTier) {
+    const entry = this.entries.get(url);
+    if (!entry) return;
+
+    const now = performance.now();
+    entry.lastUsed = now;
+
+    const wanted = TIER_ORDER.indexOf(tier);
+    const have = Math.max(
+      entry.thumb ? TIER_ORDER.indexOf(entry.thumb.tier) : 0,
+      entry.detail ? TIER_ORDER.indexOf(entry.detail.tier) : 0,
+    );
+
+    if (wanted > have && !entry.loading && !entry.failed && entry.thumb) {
+      this.load(entry, tier);
+    }
+  }
+
+  dispose() {
+    this.disposed = true;
+    for (const entry of this.entries.values()) {
+      entry.thumb?.texture.dispose();
+      entry.detail?.texture.dispose();
+    }
+    this.entries.clear();
+    this.usedBytes = 0;
+  }
+
+  private best(entry: TextureEntry): THREE.Texture | null {
+    return entry.detail?.texture || entry.thumb?.texture || null;
+  }
+
+  private urlFor(url: string, tier: TextureTier): string {
+    if (tier === 'full' || !resizeSupport.available) return url;
+    return getResizedImageUrl(url, TIER_WIDTHS[tier]);
+  }
+
+  // original skips resizing, for a retry after the resized copy failed
+  private async load(entry: TextureEntry, tier: TextureTier, original = false): Promise<void> {
+    entry.loading = tier;
+    const sourceUrl = original ? entry.url : this.urlFor(entry.url, tier);
+
+    try {
+      const texture = await this.loader.loadAsync(sourceUrl);
+      entry.loading = null;
+      if (sourceUrl !== entry.url) resizeSupport.resizedLoaded();
+      else if (original) resizeSupport.resizedFailed(entry.url);
+      texture.generateMipmaps = true;
+      texture.minFilter = THREE.LinearMipmapLinearFilter;
+      texture.magFilter = THREE.LinearFilter;
+
+      if (this.disposed || this.entries.get(entry.url) !== entry) {
+        texture.dispose();
+        return;
+      }
+
+      // Without resizing every tier is really the original image
+      const loadedTier = sourceUrl === entry.url ? 'full' : tier;
+      const loaded = { texture, tier: loadedTier, bytes: estimateBytes(texture) };
+      this.usedBytes += loaded.bytes;
+
+      if (tier === 'thumb') {
+        entry.thumb = loaded;
+      } else {
+        if (entry.detail) this.release(entry.detail);
+        entry.detail = loaded;
+      }
+
+      entry.listeners.forEach(listener => listener(this.best(entry)));
+      this.evict();
+    } catch (error) {
+      entry.loading = null;
+      if (sourceUrl !== entry.url) {
+        console.warn(`🖼️ TEXTURES: Resized ${tier} texture failed, trying the original`);
+        return this.load(entry, tier, true);
+      }
+      console.warn(`🖼️ TEXTURES: Failed to load ${tier} texture`, error);
+      entry.failed = true;
+      entry.listeners.forEach(listener => listener(this.best(entry)));
+    }
+  }
+
+  private release(loaded: LoadedTexture) {
+    loaded.texture.dispose();
+    this.usedBytes -= loaded.bytes;
+  }
+
+  // Drops detail textures first, then whole unused entries, oldest first
+  private evict() {
+    if (this.usedBytes <= this.budgetBytes) return;
+
+    const candidates = Array.from(this.entries.values()).sort((a, b) => a.lastUsed - b.lastUsed);
+
+    for (const entry of candidates) {
+      if (this.usedBytes <= this.budgetBytes) break;
+      if (entry.detail) {
+        this.release(entry.detail);
+        entry.detail = null;
+        entry.listeners.forEach(listener => listener(this.best(entry)));
+      }
+    }
+
+    for (const entry of candidates) {
+      if (this.usedBytes <= this.budgetBytes) break;
+      if (entry.refs === 0) {
+        if (entry.thumb) this.release(entry.thumb);
+        this.entries.delete(entry.url);
+      }
+    }
+
+    if (this.usedBytes > this.budgetBytes) {
+      console.warn(`🖼️ TEXTURES: ${Math.round(this.usedBytes / 1048576)}MB of thumbnails in use, above the ${Math.round(this.budgetBytes / 1048576)}MB budget`);
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { type RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { type ArrivalState } from './HeroArrival';
+
+// One display in a grid of displays, numbered left to right, top to bottom
+export type WallTile = {
+  index: number;
+  cols: number;
+  rows: number;
+};
+
+// Largest grid we accept from the URL
+const MAX_WALL_TILES = 64;
+// How often the leader broadcasts its camera and clock, in seconds
+const WALL_BROADCAST_INTERVAL = 0.1;
+// Followers ease towards the leader's camera between broadcasts
+const WALL_CAMERA_SMOOTHING = 0.25;
+// Clock drift under this many seconds is smoothed out, anything bigger snaps
+const WALL_CLOCK_SNAP = 1;
+const WALL_CLOCK_SMOOTHING = 0.1;
+
+// Reads ?tile=1&cols=3&rows=2 from the viewer URL; null when this isn't a wall display
+export const parseWallTile = (params: URLSearchParams): WallTile | null => {
+  if (!params.has('tile')) return null;
+
+  const index = parseInt(params.get('tile') || '', 10);
+  const cols = parseInt(params.get('cols') || '1', 10);
+  const rows = parseInt(params.get('rows') || '1', 10);
+
+  if ([index, cols, rows].some(Number.isNaN) || cols < 1 || rows < 1 || cols * rows > MAX_WALL_TILES) {
+    console.warn('🧱 VIDEO WALL: Ignoring invalid tile parameters', { index, cols, rows });
+    return null;
+  }
+  if (index < 0 || index >= cols * rows) {
+    console.warn(`🧱 VIDEO WALL: Tile ${index} is outside a ${cols}x${rows} wall`);
+    return null;
+  }
+  return { index, cols, rows };
+};
+
+// Tile 0 owns the camera and the clock; every other tile follows it
+export const isWallFollower = (tile?: WallTile | null) => !!tile && tile.index > 0;
+
+// The photo the leader is spotlighting and when it started, on the leader's clock
+export type WallArrival = {
+  id: string;
+  startedAt: number;
+};
+
+// Shared with the camera and animation controllers so followers run on the leader's
+// time, and with the hero arrival so they spotlight the leader's photos
+export type WallSyncState = {
+  timeOffset: number;
+  synced: boolean;
+  arrival: WallArrival | null;
+};
+
+export const createWallSyncState = (): WallSyncState => ({ timeOffset: 0, synced: false, arrival: null });
+
+// What the leader's viewer is doing that followers can't work out for themselves
+export type WallShow = {
+  paused: boolean;
+  patternOverride: string | null;
+  playlistItem: string | null;
+};
+
+const showKey = (show: WallShow) => `${show.paused}:${show.patternOverride ?? ''}:${show.playlistItem ?? ''}`;
+
+type WallFrame = {
+  time: number;
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  fov: number;
+  show?: WallShow;
+  arrival?: WallArrival | null;
+};
+
+// Renders this display's slice of a shared virtual camera and keeps the tiles of a
+// wall in step over a Supabase broadcast channel. The leader sends its show state with
+// every frame; followers hand changes to onShow
+const VideoWall: React.FC<{
+  tile: WallTile;
+  collageId: string;
+  sync: WallSyncState;
+  arrival: ArrivalState;
+  show?: WallShow;
+  onShow?: (show: WallShow) => void;
+}> = ({ tile, collageId, sync, arrival, show, onShow }) => {
+  const { camera, size } = useThree();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastBroadcastRef = useRef(-Infinity);
+  const targetFrameRef = useRef<WallFrame | null>(null);
+  const lastFrameRef = useRef<WallFrame | null>(null);
+  const lastShowKeyRef = useRef<string | null>(null);
+  const showRef = useRef(show);
+  showRef.current = show;
+  const onShowRef = useRef(onShow);
+  onShowRef.current = onShow;
+  const follower = isWallFollower(tile);
+
+  // Scratch objects reused every frame
+  const targetPosition = useRef(new THREE.Vector3());
+  const targetQuaternion = useRef(new THREE.Quaternion());
+
+  useEffect(() => {
+    const channel = supabase.channel(`wall_${collageId}`, {
+      config: { broadcast: { self: false } },
+    });
+
+    if (follower) {
+      channel.on('broadcast', { event: 'frame' }, ({ payload }) => {
+        targetFrameRef.current = payload as WallFrame;
+      });
+    }
+
+    channel.subscribe((status) => {
+      console.log(`🧱 VIDEO WALL: Tile ${tile.index} channel status:`, status);
+    });
+    channelRef.current = channel;
+
+    return () => {
+      supabase.removeChannel(channel);
+      channelRef.current = null;
+      sync.synced = false;
+      sync.timeOffset = 0;
+      sync.arrival = null;
+      lastShowKeyRef.current = null;
+    };
+  }, [collageId, follower, tile.index, sync]);
+
+  // Put the camera back to a normal full frustum when leaving wall mode
+  useEffect(() => () => {
+    (camera as THREE.PerspectiveCamera).clearViewOffset?.();
+  }, [camera]);
+
+  useFrame((state) => {
+    const perspective = camera as THREE.PerspectiveCamera;
+
+    // The canvas may resize, and the fiber resets the camera aspect when it does, so
+    // re-apply this tile's sub-frustum whenever it's out of date
+    const fullWidth = size.width * tile.cols;
+    const fullHeight = size.height * tile.rows;
+    const offsetX = (tile.index % tile.cols) * size.width;
+    const offsetY = Math.floor(tile.index / tile.cols) * size.height;
+    const view = perspective.view;
+    if (
+      perspective.setViewOffset && (
+        !view?.enabled ||
+        view.fullWidth !== fullWidth ||
+        view.fullHeight !== fullHeight ||
+        view.offsetX !== offsetX ||
+        view.offsetY !== offsetY ||
+        Math.abs(perspective.aspect - fullWidth / fullHeight) > 1e-6
+      )
+    ) {
+      perspective.setViewOffset(fullWidth, fullHeight, offsetX, offsetY, size.width, size.height);
+    }
+
+    const now = state.clock.elapsedTime;
+
+    if (!follower) {
+      if (now - lastBroadcastRef.current < WALL_BROADCAST_INTERVAL || !channelRef.current) return;
+      lastBroadcastRef.current = now;
+      const frame: WallFrame = {
+        time: now,
+        position: camera.position.toArray() as WallFrame['position'],
+        quaternion: camera.quaternion.toArray() as WallFrame['quaternion'],
+        fov: perspective.fov,
+        show: showRef.current,
+        arrival: arrival.photoId ? { id: arrival.photoId, startedAt: arrival.startedAt } : null,
+      };
+      channelRef.current.send({ type: 'broadcast', event: 'frame', payload: frame });
+      return;
+    }
+
+    const frame = targetFrameRef.current;
+    if (!frame) return;
+
+    // Measure the leader's clock against ours once per broadcast
+    if (frame !== lastFrameRef.current) {
+      lastFrameRef.current = frame;
+      const leaderOffset = frame.time - now;
+      if (!sync.synced || Math.abs(leaderOffset - sync.timeOffset) > WALL_CLOCK_SNAP) {
+        sync.timeOffset = leaderOffset;
+        sync.synced = true;
+      } else {
+        sync.timeOffset += (leaderOffset - sync.timeOffset) * WALL_CLOCK_SMOOTHING;
+      }
+
+      if (frame.show && showKey(frame.show) !== lastShowKeyRef.current) {
+        lastShowKeyRef.current = showKey(frame.show);
+        onShowRef.current?.(frame.show);
+      }
+      sync.arrival = frame.arrival ?? null;
+    }
+
+    targetPosition.current.fromArray(frame.position);
+    targetQuaternion.current.fromArray(frame.quaternion);
+    camera.position.lerp(targetPosition.current, WALL_CAMERA_SMOOTHING);
+    camera.quaternion.slerp(targetQuaternion.current, WALL_CAMERA_SMOOTHING);
+    // Camera paths can zoom, so the lens follows the leader too
+    if (frame.fov && Math.abs(perspective.fov - frame.fov) > 0.01) {
+      perspective.fov = frame.fov;
+      perspective.updateProjectionMatrix();
+    }
+  });
+
+  return null;
+};
+
+export default VideoWall;
@@ -1,4 +1,5 @@
-import { type SceneSettings } from '../../../store/sceneStore';
+import { type SceneSettings, maxPhotoCount } from '../../../store/sceneStore';
+import { randomFor } from '../../../lib/random';
 
 export type Photo = {
   id: string;
@@ -8,6 +9,10 @@ export type Photo = {
 
 export type Position = [number, number, number];
 
+export type PatternSettingValue = number | boolean | string;
+
+export type PatternSettingValues = Record<string, PatternSettingValue>;
+
 export interface PatternProps {
   photos: Photo[];
   settings: SceneSettings;
@@ -19,14 +24,27 @@ export interface PatternState {
 }
 
 // Base class for pattern implementations
-export abstract class BasePattern {
+export abstract class BasePattern<T extends PatternSettingValues = PatternSettingValues> {
   protected settings: SceneSettings;
   protected photos: Photo[];
+  protected options: T;
 
-  constructor(settings: SceneSettings, photos: Photo[]) {
+  constructor(settings: SceneSettings, photos: Photo[], options: T) {
     this.settings = settings;
     this.photos = photos;
+    this.options = options;
+  }
+
+  // Number of slots to lay out, capped by what the current renderer can draw
+  protected get slotCount(): number {
+    return Math.min(this.settings.photoCount, maxPhotoCount(this.settings));
+  }
+
+  // Seeded value in [0, 1) for a slot. The same seed, index and stream always give the
+  // same number, so every screen showing the collage gets the same layout.
+  protected random(index: number, stream = 0): number {
+    return randomFor(this.settings.seed ?? 1, index, stream);
   }
 
   abstract generatePositions(time: number): PatternState;
-}
\ No newline at end of file
+}
@@ -1,17 +1,27 @@
 import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
+import { relaxPositions, PHOTO_DIAMETER } from './PositionRelaxer';
 
-export class FloatPattern extends BasePattern {
+type FloatOptions = {
+  riseSpeed: number;
+  maxHeight: number;
+  driftStrength: number;
+  relaxEnabled: boolean;
+  relaxIterations: number;
+};
+
+export class FloatPattern extends BasePattern<FloatOptions> {
   generatePositions(time: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
     
-    const totalPhotos = Math.min(this.settings.photoCount, 500);
+    const totalPhotos = this.slotCount;
     
     // Floor area configuration
     const floorSize = this.settings.floorSize || 100;
     const fullFloorArea = floorSize;
-    const riseSpeed = 8; // Units per second rising speed
-    const maxHeight = 60; // Maximum height before recycling
+    const riseSpeed = this.options.riseSpeed; // Units per second rising speed
+    const maxHeight = this.options.maxHeight; // Maximum height before recycling
     const startHeight = -20; // Start well below the floor
     const cycleHeight = maxHeight - startHeight; // Total distance to travel
     
@@ -27,10 +37,10 @@ export class FloatPattern extends BasePattern {
       const gridX = i % gridSize;
       const gridZ = Math.floor(i / gridSize);
       
-      // Deterministic pseudo-random values based on photo index
-      const randomOffsetX = Math.sin(i * 0.73) * 0.5;
-      const randomOffsetZ = Math.cos(i * 1.37) * 0.5;
-      const phaseOffset = (i * 0.211) % 1; // 0 to 1, for staggering
+      // Seeded random values so each collage keeps its own layout
+      const randomOffsetX = this.random(i, 0) - 0.5;
+      const randomOffsetZ = this.random(i, 1) - 0.5;
+      const phaseOffset = this.random(i, 2); // 0 to 1, for staggering
       
       // Calculate position within the grid cell
       const cellCenterX = (gridX + 0.5) * cellSize - fullFloorArea / 2;
@@ -66,7 +76,7 @@ export class FloatPattern extends BasePattern {
       
       if (this.settings.animationEnabled) {
         // Gentle horizontal drift as photos rise
-        const driftStrength = 1.5;
+        const driftStrength = this.options.driftStrength;
         const driftSpeed = 0.3;
         x += Math.sin(animationTime * driftSpeed + i * 0.5) * driftStrength;
         z += Math.cos(animationTime * driftSpeed * 0.8 + i * 0.7) * driftStrength;
@@ -89,6 +99,33 @@ export class FloatPattern extends BasePattern {
       }
     }
 
+    if (this.options.relaxEnabled) {
+      relaxPositions(positions, {
+        minDistance: (this.settings.photoSize || 4.0) * PHOTO_DIAMETER,
+        iterations: this.options.relaxIterations,
+      });
+    }
+
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+PatternRegistry.register<FloatOptions>({
+  id: 'float',
+  name: 'Float',
+  pattern: FloatPattern,
+  schema: [
+    { key: 'riseSpeed', label: 'Rise Speed', type: 'range', min: 1, max: 20, step: 0.5, unit: 'units/s' },
+    { key: 'maxHeight', label: 'Max Height', type: 'range', min: 20, max: 120, step: 5, unit: 'units' },
+    { key: 'driftStrength', label: 'Drift', type: 'range', min: 0, max: 5, step: 0.1, description: 'Sideways sway while rising' },
+    { key: 'relaxEnabled', label: 'Prevent Overlaps', type: 'checkbox', description: 'Nudges photos apart so they stop intersecting at high photo counts' },
+    { key: 'relaxIterations', label: 'Overlap Passes', type: 'range', min: 1, max: 10, step: 1, showWhen: options => Boolean(options.relaxEnabled) },
+  ],
+  defaults: {
+    riseSpeed: 8,
+    maxHeight: 60,
+    driftStrength: 1.5,
+    relaxEnabled: false,
+    relaxIterations: 3,
+  },
+});
@@ -1,11 +1,16 @@
 import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
 
-export class GridPattern extends BasePattern {
+type GridOptions = {
+  waveIntensity: number;
+};
+
+export class GridPattern extends BasePattern<GridOptions> {
   generatePositions(time: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
     
-    const totalPhotos = Math.min(this.settings.photoCount, 500);
+    const totalPhotos = this.slotCount;
     
     // Calculate grid dimensions with aspect ratio
     const aspectRatio = this.settings.gridAspectRatio || 1.0;
@@ -50,20 +55,18 @@ export class GridPattern extends BasePattern {
       const baseY = wallHeight + (row * verticalSpacing);
       
       let z = 0;
-      let y = baseY;
+      const y = baseY;
       
-      // Animation
+      // Animation: the ripple only moves photos in and out of the wall, since moving
+      // rows up and down by more than the gap between them would overlap them
       if (this.settings.animationEnabled) {
         const actualGap = spacingMultiplier * photoSize;
-        const waveIntensity = Math.max(actualGap * 0.3, 0.1);
+        const waveIntensity = Math.max(actualGap * 0.3, 0.1) * this.options.waveIntensity;
         
         const waveX = Math.sin(animationTime * 0.5 + col * 0.3) * waveIntensity;
         const waveY = Math.cos(animationTime * 0.5 + row * 0.3) * waveIntensity;
         
-        y += waveY;
-        z += waveX;
-        
-        y = Math.max(y, wallHeight);
+        z += waveX + waveY;
       }
       
       positions.push([x, y, z]);
@@ -81,4 +84,16 @@ export class GridPattern extends BasePattern {
     
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+PatternRegistry.register<GridOptions>({
+  id: 'grid',
+  name: 'Grid Wall',
+  pattern: GridPattern,
+  schema: [
+    { key: 'waveIntensity', label: 'Ripple Strength', type: 'range', min: 0, max: 3, step: 0.1, description: 'Scales the gentle ripple across the wall' },
+  ],
+  defaults: {
+    waveIntensity: 1,
+  },
+});
@@ -0,0 +1,138 @@
+import { type SceneSettings, defaultSettings } from '../../../store/sceneStore';
+import { ease } from '../../../lib/easing';
+import { type BasePattern, type Photo, type PatternState, type Position } from './BasePattern';
+import { PatternFactory, DEFAULT_PATTERN_ID } from './PatternFactory';
+
+type Rotation = [number, number, number];
+
+type ActiveTransition = {
+  from: PatternState;
+  startTime: number;
+};
+
+// Owns the active pattern and blends between pattern outputs when animationPattern changes
+export class PatternAnimator {
+  private pattern: BasePattern | null = null;
+  private patternId: string | null = null;
+  private settings: SceneSettings | null = null;
+  private photos: Photo[] | null = null;
+  private transition: ActiveTransition | null = null;
+  private lastState: PatternState | null = null;
+
+  update(settings: SceneSettings, photos: Photo[], elapsed: number) {
+    if (settings === this.settings && photos === this.photos) return;
+
+    const nextId = settings.animationPattern || DEFAULT_PATTERN_ID;
+    const patternChanged = this.patternId !== null && nextId !== this.patternId;
+
+    const duration = settings.transitionDuration ?? defaultSettings.transitionDuration;
+
+    if (patternChanged && this.lastState && duration > 0) {
+      // Freeze whatever is on screen right now so interrupted transitions stay continuous
+      this.transition = {
+        from: clonePatternState(this.lastState),
+        startTime: elapsed,
+      };
+    } else if (patternChanged) {
+      this.transition = null;
+    }
+
+    this.pattern = PatternFactory.createPattern(nextId, settings, photos);
+    this.patternId = nextId;
+    this.settings = settings;
+    this.photos = photos;
+  }
+
+  get isTransitioning(): boolean {
+    return this.transition !== null;
+  }
+
+  compute(time: number, elapsed: number): PatternState {
+    if (!this.pattern || !this.settings) {
+      return { positions: [], rotations: [] };
+    }
+
+    const target = this.pattern.generatePositions(time);
+    const state = this.transition
+      ? this.blend(this.transition, target, elapsed, this.settings)
+      : target;
+
+    this.lastState = state;
+    return state;
+  }
+
+  private blend(
+    transition: ActiveTransition,
+    target: PatternState,
+    elapsed: number,
+    settings: SceneSettings
+  ): PatternState {
+    const duration = Math.max(settings.transitionDuration ?? defaultSettings.transitionDuration, 0.001);
+    const stagger = Math.max(settings.transitionStagger ?? defaultSettings.transitionStagger, 0);
+    const explode = settings.transitionStyle === 'explode';
+    const explodeDistance = settings.transitionExplodeDistance ?? defaultSettings.transitionExplodeDistance;
+    const count = target.positions.length;
+    const center = explode ? centroid(transition.from.positions, target.positions) : null;
+
+    const positions: Position[] = [];
+    const rotations: Rotation[] = [];
+    let finished = true;
+
+    for (let i = 0; i < count; i++) {
+      const to = target.positions[i];
+      const toRotation = target.rotations?.[i] || [0, 0, 0];
+      const from = transition.from.positions[i] || to;
+      const fromRotation = transition.from.rotations?.[i] || toRotation;
+
+      // Later slots start later so the wall reassembles as a wave instead of all at once
+      const delay = count > 1 ? stagger * (i / (count - 1)) : 0;
+      const progress = (elapsed - transition.startTime - delay) / duration;
+      if (progress < 1) finished = false;
+
+      const t = ease(settings.transitionEasing, progress);
+
+      let x = from[0] + (to[0] - from[0]) * t;
+      let y = from[1] + (to[1] - from[1]) * t;
+      let z = from[2] + (to[2] - from[2]) * t;
+
+      let rx = fromRotation[0] + (toRotation[0] - fromRotation[0]) * t;
+      let ry = fromRotation[1] + (toRotation[1] - fromRotation[1]) * t;
+      const rz = fromRotation[2] + (toRotation[2] - fromRotation[2]) * t;
+
+      if (center) {
+        // Push photos out from the shared centre, peaking halfway through the move
+        const burst = Math.sin(Math.PI * t);
+        const dx = x - center[0];
+        const dy = y - center[1];
+        const dz = z - center[2];
+        const length = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+        x += (dx / length) * explodeDistance * burst;
+        y += Math.max(dy / length, 0.2) * explodeDistance * burst;
+        z += (dz / length) * explodeDistance * burst;
+        rx += burst * Math.PI * 0.5;
+        ry += burst * Math.PI;
+      }
+
+      positions.push([x, y, z]);
+      rotations.push([rx, ry, rz]);
+    }
+
+    if (finished) {
+      this.transition = null;
+    }
+
+    return { positions, rotations };
+  }
+}
+
+const clonePatternState = (state: PatternState): PatternState => ({
+  positions: state.positions.map(p => [p[0], p[1], p[2]] as Position),
+  rotations: state.rotations?.map(r => [r[0], r[1], r[2]] as Rotation),
+});
+
+const centroid = (a: Position[], b: Position[]): Position => {
+  const all = a.concat(b);
+  if (all.length === 0) return [0, 0, 0];
+  const sum = all.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+  return [sum[0] / all.length, sum[1] / all.length, sum[2] / all.length];
+};
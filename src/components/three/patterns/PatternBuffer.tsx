@@ -0,0 +1,42 @@
+import { type SceneSettings, MAX_INSTANCED_PHOTOS } from '../../../store/sceneStore';
+import { type Photo, type PatternState } from './BasePattern';
+
+// Per slot: x, y, z, rotation x, rotation y, rotation z
+export const SLOT_STRIDE = 6;
+
+// Upper bound on slots a pattern buffer can hold, whichever renderer is active
+export const MAX_PATTERN_SLOTS = MAX_INSTANCED_PHOTOS;
+
+export type PatternEngineRequest =
+  | {
+      type: 'init';
+      // Present when the page is cross-origin isolated: both halves of a double buffer
+      // plus [active half, slot count] control words
+      shared?: { data: SharedArrayBuffer; control: SharedArrayBuffer };
+    }
+  | { type: 'update'; settings: SceneSettings; photos: Photo[]; elapsed: number }
+  | { type: 'frame'; time: number; elapsed: number; buffer?: ArrayBuffer };
+
+export type PatternEngineResponse =
+  | { type: 'frame'; count: number; buffer?: ArrayBuffer }
+  // A failed frame hands its transfer buffer back so the next frame can use it
+  | { type: 'error'; message: string; buffer?: ArrayBuffer };
+
+// Flattens a pattern state into the slot buffer; returns the number of slots written
+export const writePatternState = (state: PatternState, target: Float32Array): number => {
+  const count = Math.min(state.positions.length, Math.floor(target.length / SLOT_STRIDE));
+
+  for (let i = 0; i < count; i++) {
+    const position = state.positions[i];
+    const rotation = state.rotations?.[i];
+    const offset = i * SLOT_STRIDE;
+    target[offset] = position[0];
+    target[offset + 1] = position[1];
+    target[offset + 2] = position[2];
+    target[offset + 3] = rotation ? rotation[0] : 0;
+    target[offset + 4] = rotation ? rotation[1] : 0;
+    target[offset + 5] = rotation ? rotation[2] : 0;
+  }
+
+  return count;
+};
@@ -0,0 +1,172 @@
+import { type SceneSettings } from '../../../store/sceneStore';
+import { type Photo } from './BasePattern';
+import { PatternAnimator } from './PatternAnimator';
+import {
+  MAX_PATTERN_SLOTS,
+  SLOT_STRIDE,
+  writePatternState,
+  type PatternEngineRequest,
+  type PatternEngineResponse,
+} from './PatternBuffer';
+
+// Runs the pattern animator in a Web Worker and exposes its output as a flat
+// Float32Array (see SLOT_STRIDE) that meshes read directly every frame.
+//
+// With cross-origin isolation the worker writes into a shared double buffer; otherwise
+// two buffers are transferred back and forth. If workers aren't available (or the worker
+// fails) the animator runs on the main thread instead, with the same output.
+export class PatternEngine {
+  private worker: Worker | null = null;
+  private fallback: PatternAnimator | null = null;
+  private inFlight = false;
+  private slotCount = 0;
+
+  // Transfer mode: `front` is what meshes read, `back` is with the worker or idle
+  private front: Float32Array;
+  private back: Float32Array | null;
+
+  // Shared mode
+  private sharedHalves: [Float32Array, Float32Array] | null = null;
+  private sharedControl: Int32Array | null = null;
+
+  private settings: SceneSettings | null = null;
+  private photos: Photo[] = [];
+
+  constructor(capacity = MAX_PATTERN_SLOTS) {
+    this.front = new Float32Array(capacity * SLOT_STRIDE);
+    this.back = new Float32Array(capacity * SLOT_STRIDE);
+
+    if (typeof Worker === 'undefined') {
+      this.fallback = new PatternAnimator();
+      return;
+    }
+
+    try {
+      this.worker = new Worker(new URL('./PatternWorker.tsx', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<PatternEngineResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('🎬 PATTERN ENGINE: Worker crashed, computing on the main thread', event.message);
+        this.useMainThread();
+      };
+
+      const shared = typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated;
+      if (shared) {
+        const data = new SharedArrayBuffer(capacity * SLOT_STRIDE * 2 * Float32Array.BYTES_PER_ELEMENT);
+        const control = new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT);
+        this.sharedHalves = [
+          new Float32Array(data, 0, capacity * SLOT_STRIDE),
+          new Float32Array(data, capacity * SLOT_STRIDE * Float32Array.BYTES_PER_ELEMENT, capacity * SLOT_STRIDE),
+        ];
+        this.sharedControl = new Int32Array(control);
+        this.post({ type: 'init', shared: { data, control } });
+      } else {
+        this.post({ type: 'init' });
+      }
+
+      console.log(`🎬 PATTERN ENGINE: Worker started (${shared ? 'shared' : 'transfer'} buffers)`);
+    } catch (error) {
+      console.warn('🎬 PATTERN ENGINE: Could not start worker, computing on the main thread', error);
+      this.useMainThread();
+    }
+  }
+
+  // Latest slot data; read it every frame rather than holding on to it
+  get positions(): Float32Array {
+    if (this.sharedHalves && this.sharedControl) {
+      return this.sharedHalves[Atomics.load(this.sharedControl, 0)];
+    }
+    return this.front;
+  }
+
+  // Number of slots with valid data in `positions` (0 until the first frame lands)
+  get count(): number {
+    if (this.sharedControl) {
+      return Atomics.load(this.sharedControl, 1);
+    }
+    return this.slotCount;
+  }
+
+  update(settings: SceneSettings, photos: Photo[], elapsed: number) {
+    if (settings === this.settings && photos === this.photos) return;
+    this.settings = settings;
+    this.photos = photos;
+
+    if (this.fallback) {
+      this.fallback.update(settings, photos, elapsed);
+    } else {
+      this.post({ type: 'update', settings, photos, elapsed });
+    }
+  }
+
+  // Asks for the pattern at `time`. Skipped while the worker is still busy with the last
+  // frame, so a slow frame never queues up work.
+  step(time: number, elapsed: number) {
+    if (this.fallback) {
+      try {
+        this.slotCount = writePatternState(this.fallback.compute(time, elapsed), this.front);
+      } catch (error) {
+        // Keep showing the last good frame and try again next time
+        console.error('🎬 PATTERN ENGINE: Frame failed', error);
+      }
+      return;
+    }
+    if (!this.worker || this.inFlight) return;
+
+    if (this.sharedHalves) {
+      this.inFlight = this.post({ type: 'frame', time, elapsed });
+    } else if (this.back) {
+      const buffer = this.back.buffer as ArrayBuffer;
+      this.back = null;
+      this.inFlight = this.post({ type: 'frame', time, elapsed, buffer }, [buffer]);
+    }
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private handleMessage(message: PatternEngineResponse) {
+    this.inFlight = false;
+
+    if (message.type === 'error') {
+      // The last good frame stays up; the returned buffer is ready for the next attempt
+      console.error('🎬 PATTERN ENGINE: Worker error', message.message);
+      if (message.buffer) this.back = new Float32Array(message.buffer);
+      return;
+    }
+
+    if (message.buffer) {
+      this.back = this.front;
+      this.front = new Float32Array(message.buffer);
+    }
+    this.slotCount = message.count;
+  }
+
+  private post(message: PatternEngineRequest, transfer: Transferable[] = []): boolean {
+    try {
+      this.worker?.postMessage(message, transfer);
+      return true;
+    } catch (error) {
+      console.error('🎬 PATTERN ENGINE: Could not reach worker, computing on the main thread', error);
+      this.useMainThread();
+      return false;
+    }
+  }
+
+  private useMainThread() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.sharedHalves = null;
+    this.sharedControl = null;
+    this.inFlight = false;
+
+    const capacity = this.front.length || this.back?.length || MAX_PATTERN_SLOTS * SLOT_STRIDE;
+    if (this.front.length === 0) this.front = new Float32Array(capacity);
+
+    this.fallback = new PatternAnimator();
+    if (this.settings) {
+      this.fallback.update(this.settings, this.photos, 0);
+    }
+  }
+}
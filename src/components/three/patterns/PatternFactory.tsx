@@ -1,23 +1,69 @@
 import { type SceneSettings } from '../../../store/sceneStore';
 import { type Photo } from './BasePattern';
-import { FloatPattern } from './FloatPattern';
-import { GridPattern } from './GridPattern';
-import { SpiralPattern } from './SpiralPattern';
-import { WavePattern } from './WavePattern';
+import { PatternRegistry } from './PatternRegistry';
+
+export { PatternRegistry };
+export type { PatternDefinition, PatternSettingField } from './PatternRegistry';
+
+// Built-in patterns register themselves on import
+import './GridPattern';
+import './FloatPattern';
+import './WavePattern';
+import './SpiralPattern';
+import './SpherePattern';
+import './ShapePattern';
+
+export const DEFAULT_PATTERN_ID = 'grid';
+
+// Patterns are created every frame, so only warn once per unknown id
+const warnedUnknownPatterns = new Set<string>();
 
 export class PatternFactory {
   static createPattern(type: string, settings: SceneSettings, photos: Photo[]) {
-    switch (type) {
-      case 'float':
-        return new FloatPattern(settings, photos);
-      case 'grid':
-        return new GridPattern(settings, photos);
-      case 'spiral':
-        return new SpiralPattern(settings, photos);
-      case 'wave':
-        return new WavePattern(settings, photos);
-      default:
-        return new GridPattern(settings, photos);
+    let definition = PatternRegistry.get(type);
+
+    if (!definition) {
+      if (!warnedUnknownPatterns.has(type)) {
+        console.warn(`🎨 PATTERN FACTORY: Unknown pattern "${type}", falling back to "${DEFAULT_PATTERN_ID}"`);
+        warnedUnknownPatterns.add(type);
+      }
+      type = DEFAULT_PATTERN_ID;
+      definition = PatternRegistry.get(DEFAULT_PATTERN_ID)!;
+    }
+
+    const options = PatternRegistry.resolveOptions(type, settings);
+    return new definition.pattern(settings, photos, options);
+  }
+}
+
+// Slot nearest the middle of the pattern's resting layout, e.g. the centre of the grid wall
+export const findCentreSlot = (settings: SceneSettings): number => {
+  const pattern = PatternFactory.createPattern(
+    settings.animationPattern,
+    { ...settings, animationEnabled: false },
+    []
+  );
+  const { positions } = pattern.generatePositions(0);
+  if (positions.length === 0) return 0;
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const position of positions) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], position[axis]);
+      max[axis] = Math.max(max[axis], position[axis]);
     }
   }
-}
\ No newline at end of file
+  const centre = min.map((value, axis) => (value + max[axis]) / 2);
+
+  let best = 0;
+  let bestDistance = Infinity;
+  positions.forEach((position, index) => {
+    const distance = position.reduce((sum, value, axis) => sum + (value - centre[axis]) ** 2, 0);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,100 @@
+import { type SceneSettings } from '../../../store/sceneStore';
+import {
+  type BasePattern,
+  type Photo,
+  type PatternSettingValues,
+} from './BasePattern';
+
+type PatternFieldBase = {
+  key: string;
+  label: string;
+  description?: string;
+  // Hide the control unless the pattern's current options pass this check
+  showWhen?: (options: PatternSettingValues) => boolean;
+};
+
+// Control descriptors used by the settings panel to render pattern options
+export type PatternSettingField = PatternFieldBase & (
+  | {
+      type: 'range';
+      min: number;
+      max: number;
+      step: number;
+      unit?: string;
+    }
+  | {
+      type: 'checkbox';
+    }
+  | {
+      type: 'select';
+      options: { value: string; label: string }[];
+    }
+  | {
+      type: 'color';
+    }
+  | {
+      type: 'text';
+      multiline?: boolean;
+      placeholder?: string;
+    }
+  | {
+      // Stored as a downscaled data URL so it travels with the collage settings
+      type: 'image';
+      accept?: string;
+    }
+);
+
+export type PatternConstructor<T extends PatternSettingValues = PatternSettingValues> = new (
+  settings: SceneSettings,
+  photos: Photo[],
+  options: T
+) => BasePattern<T>;
+
+export interface PatternDefinition<T extends PatternSettingValues = PatternSettingValues> {
+  id: string;
+  name: string;
+  pattern: PatternConstructor<T>;
+  schema: PatternSettingField[];
+  defaults: T;
+}
+
+const definitions = new Map<string, PatternDefinition<any>>();
+
+export class PatternRegistry {
+  static register<T extends PatternSettingValues>(definition: PatternDefinition<T>) {
+    if (definitions.has(definition.id)) {
+      console.warn(`🎨 PATTERN REGISTRY: Replacing existing pattern "${definition.id}"`);
+    }
+    definitions.set(definition.id, definition);
+  }
+
+  static get(id: string): PatternDefinition | undefined {
+    return definitions.get(id);
+  }
+
+  static has(id: string): boolean {
+    return definitions.has(id);
+  }
+
+  static list(): PatternDefinition[] {
+    return Array.from(definitions.values());
+  }
+
+  // Merge the registered defaults with whatever the collage has stored for this pattern
+  static resolveOptions(id: string, settings: SceneSettings): PatternSettingValues {
+    const definition = definitions.get(id);
+    if (!definition) return {};
+
+    const stored = settings.patterns?.[id] || {};
+    const options: PatternSettingValues = { ...definition.defaults };
+
+    for (const key of Object.keys(definition.defaults)) {
+      const value = stored[key];
+      if (value !== undefined && typeof value === typeof definition.defaults[key]) {
+        options[key] = value;
+      }
+    }
+
+    return options;
+  }
+}
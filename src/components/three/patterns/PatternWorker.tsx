@@ -0,0 +1,65 @@
+import { PatternAnimator } from './PatternAnimator';
+import {
+  writePatternState,
+  type PatternEngineRequest,
+  type PatternEngineResponse,
+} from './PatternBuffer';
+
+// The app is type-checked against the DOM lib, so describe just the worker scope we use
+type WorkerScope = {
+  onmessage: ((event: MessageEvent<PatternEngineRequest>) => void) | null;
+  postMessage: (message: PatternEngineResponse, transfer?: Transferable[]) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+const animator = new PatternAnimator();
+
+let sharedData: [Float32Array, Float32Array] | null = null;
+let sharedControl: Int32Array | null = null;
+
+scope.onmessage = (event) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case 'init':
+        if (message.shared) {
+          const half = message.shared.data.byteLength / 2 / Float32Array.BYTES_PER_ELEMENT;
+          sharedData = [
+            new Float32Array(message.shared.data, 0, half),
+            new Float32Array(message.shared.data, half * Float32Array.BYTES_PER_ELEMENT, half),
+          ];
+          sharedControl = new Int32Array(message.shared.control);
+        }
+        break;
+
+      case 'update':
+        animator.update(message.settings, message.photos, message.elapsed);
+        break;
+
+      case 'frame': {
+        const state = animator.compute(message.time, message.elapsed);
+
+        if (sharedData && sharedControl) {
+          // Write the half the main thread isn't reading, then flip
+          const next = 1 - Atomics.load(sharedControl, 0);
+          const count = writePatternState(state, sharedData[next]);
+          Atomics.store(sharedControl, 1, count);
+          Atomics.store(sharedControl, 0, next);
+          scope.postMessage({ type: 'frame', count });
+        } else if (message.buffer) {
+          const count = writePatternState(state, new Float32Array(message.buffer));
+          scope.postMessage({ type: 'frame', count, buffer: message.buffer }, [message.buffer]);
+        }
+        break;
+      }
+    }
+  } catch (error) {
+    console.error('🎬 PATTERN WORKER: Failed to handle message', error);
+    const buffer = message.type === 'frame' ? message.buffer : undefined;
+    scope.postMessage(
+      { type: 'error', message: error instanceof Error ? error.message : String(error), buffer },
+      buffer ? [buffer] : []
+    );
+  }
+};
@@ -0,0 +1,136 @@
+import { type Position } from './BasePattern';
+
+export type RelaxOptions = {
+  // Centres closer than this are pushed apart
+  minDistance: number;
+  iterations: number;
+  // Nothing is pushed below this height (e.g. the floor or the wall base)
+  minY?: number;
+};
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Bounding-sphere diameter of a 9:16 photo quad, relative to photoSize
+export const PHOTO_DIAMETER = Math.sqrt((9 / 16) * (9 / 16) + 1);
+
+// The cell itself plus the 13 neighbours "after" it, so every neighbouring pair of cells
+// is visited from exactly one side
+const NEIGHBOUR_OFFSETS: number[] = [0, 0, 0];
+for (let dx = -1; dx <= 1; dx++) {
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dz = -1; dz <= 1; dz++) {
+      if (dx > 0 || (dx === 0 && (dy > 0 || (dy === 0 && dz > 0)))) {
+        NEIGHBOUR_OFFSETS.push(dx, dy, dz);
+      }
+    }
+  }
+}
+
+const cellHash = (x: number, y: number, z: number, mask: number) =>
+  (((x * 73856093) ^ (y * 19349663) ^ (z * 83492791)) >>> 0) & mask;
+
+// Reused between calls so relaxing every frame doesn't churn the garbage collector
+let bucketStart = new Int32Array(0);
+let bucketCursor = new Int32Array(0);
+let bucketEntries = new Int32Array(0);
+let cellCoords = new Int32Array(0);
+
+// Pushes overlapping photos apart in place. Each iteration counting-sorts the photos into
+// a spatial hash with cells one minDistance wide, so only neighbouring cells are compared
+// and a pass over 500 photos costs a fraction of a millisecond.
+export const relaxPositions = (positions: Position[], options: RelaxOptions): Position[] => {
+  const { minDistance, iterations, minY } = options;
+  const count = positions.length;
+  if (count < 2 || minDistance <= 0 || iterations <= 0) return positions;
+
+  let tableSize = 1;
+  while (tableSize < count * 2) tableSize <<= 1;
+  const mask = tableSize - 1;
+
+  if (bucketStart.length < tableSize + 1) {
+    bucketStart = new Int32Array(tableSize + 1);
+    bucketCursor = new Int32Array(tableSize);
+  }
+  if (bucketEntries.length < count) bucketEntries = new Int32Array(count);
+  if (cellCoords.length < count * 3) cellCoords = new Int32Array(count * 3);
+
+  const minDistanceSq = minDistance * minDistance;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    bucketStart.fill(0, 0, tableSize + 1);
+    for (let i = 0; i < count; i++) {
+      const [x, y, z] = positions[i];
+      cellCoords[i * 3] = Math.floor(x / minDistance);
+      cellCoords[i * 3 + 1] = Math.floor(y / minDistance);
+      cellCoords[i * 3 + 2] = Math.floor(z / minDistance);
+      bucketStart[cellHash(cellCoords[i * 3], cellCoords[i * 3 + 1], cellCoords[i * 3 + 2], mask) + 1]++;
+    }
+    // Prefix sums turn counts into offsets: bucket b spans [bucketStart[b], bucketStart[b + 1])
+    for (let b = 0; b < tableSize; b++) {
+      bucketStart[b + 1] += bucketStart[b];
+    }
+    bucketCursor.set(bucketStart.subarray(0, tableSize));
+    for (let i = 0; i < count; i++) {
+      const bucket = cellHash(cellCoords[i * 3], cellCoords[i * 3 + 1], cellCoords[i * 3 + 2], mask);
+      bucketEntries[bucketCursor[bucket]++] = i;
+    }
+
+    let moved = false;
+
+    for (let i = 0; i < count; i++) {
+      const a = positions[i];
+
+      for (let n = 0; n < NEIGHBOUR_OFFSETS.length; n += 3) {
+        const cx = cellCoords[i * 3] + NEIGHBOUR_OFFSETS[n];
+        const cy = cellCoords[i * 3 + 1] + NEIGHBOUR_OFFSETS[n + 1];
+        const cz = cellCoords[i * 3 + 2] + NEIGHBOUR_OFFSETS[n + 2];
+        const sameCell = n === 0;
+        const bucket = cellHash(cx, cy, cz, mask);
+
+        for (let k = bucketStart[bucket]; k < bucketStart[bucket + 1]; k++) {
+          const j = bucketEntries[k];
+          // Pairs within a cell are handled once, by their lower index. Other cells can
+          // share this bucket, so skip photos that aren't in the neighbour being scanned.
+          if (sameCell && j <= i) continue;
+          if (cellCoords[j * 3] !== cx || cellCoords[j * 3 + 1] !== cy || cellCoords[j * 3 + 2] !== cz) continue;
+          const b = positions[j];
+
+          let ox = b[0] - a[0];
+          let oy = b[1] - a[1];
+          let oz = b[2] - a[2];
+          const distanceSq = ox * ox + oy * oy + oz * oz;
+          if (distanceSq >= minDistanceSq) continue;
+
+          let distance = Math.sqrt(distanceSq);
+          if (distance < 1e-6) {
+            // Stacked exactly: pick a stable sideways direction per pair
+            const angle = (i + j) * GOLDEN_ANGLE;
+            ox = Math.cos(angle);
+            oy = 0;
+            oz = Math.sin(angle);
+            distance = 1;
+          }
+
+          // Split the overlap evenly between the two photos
+          const push = ((minDistance - Math.sqrt(distanceSq)) * 0.5) / distance;
+          a[0] -= ox * push;
+          a[1] -= oy * push;
+          a[2] -= oz * push;
+          b[0] += ox * push;
+          b[1] += oy * push;
+          b[2] += oz * push;
+
+          if (minY !== undefined) {
+            a[1] = Math.max(a[1], minY);
+            b[1] = Math.max(b[1], minY);
+          }
+          moved = true;
+        }
+      }
+    }
+
+    if (!moved) break;
+  }
+
+  return positions;
+};
@@ -0,0 +1,363 @@
+// Binary occupancy grids the shape pattern samples slot positions from.
+// Built-in shapes are plain polygons so they work anywhere; text, SVG paths and
+// uploaded images need a 2D canvas (OffscreenCanvas or the DOM).
+
+export type ShapeMask = {
+  width: number;
+  height: number;
+  data: Uint8Array; // 1 = inside the shape, row 0 is the top
+};
+
+type Point = [number, number];
+
+const MASK_RESOLUTION = 128;
+const RENDER_SIZE = 512;
+const MAX_CACHED_MASKS = 16;
+const MAX_CACHED_LAYOUTS = 8;
+
+const heartOutline = (): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i < 128; i++) {
+    const t = (i / 128) * Math.PI * 2;
+    points.push([
+      16 * Math.pow(Math.sin(t), 3),
+      13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)
+    ]);
+  }
+  return points;
+};
+
+const starOutline = (): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i < 10; i++) {
+    const angle = Math.PI / 2 + (i / 10) * Math.PI * 2;
+    const radius = i % 2 === 0 ? 1 : 0.45;
+    points.push([Math.cos(angle) * radius, Math.sin(angle) * radius]);
+  }
+  return points;
+};
+
+const circleOutline = (): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i < 64; i++) {
+    const angle = (i / 64) * Math.PI * 2;
+    points.push([Math.cos(angle), Math.sin(angle)]);
+  }
+  return points;
+};
+
+export const BUILT_IN_SHAPES: Record<string, () => Point[]> = {
+  heart: heartOutline,
+  star: starOutline,
+  circle: circleOutline,
+};
+
+const pointInPolygon = (x: number, y: number, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Polygon points are y-up; the mask is stored top row first
+export const rasterizePolygon = (polygon: Point[], resolution = MASK_RESOLUTION): ShapeMask => {
+  const xs = polygon.map(p => p[0]);
+  const ys = polygon.map(p => p[1]);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const spanX = maxX - minX || 1;
+  const spanY = maxY - minY || 1;
+
+  const scale = resolution / Math.max(spanX, spanY);
+  const width = Math.max(1, Math.round(spanX * scale));
+  const height = Math.max(1, Math.round(spanY * scale));
+  const data = new Uint8Array(width * height);
+
+  for (let row = 0; row < height; row++) {
+    const y = maxY - ((row + 0.5) / height) * spanY;
+    for (let col = 0; col < width; col++) {
+      const x = minX + ((col + 0.5) / width) * spanX;
+      data[row * width + col] = pointInPolygon(x, y, polygon) ? 1 : 0;
+    }
+  }
+
+  return { width, height, data };
+};
+
+type Canvas2D = {
+  context: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+};
+
+const createCanvas = (width: number, height: number): Canvas2D | null => {
+  let canvas: OffscreenCanvas | HTMLCanvasElement | null = null;
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(width, height);
+  } else if (typeof document !== 'undefined') {
+    canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+  }
+
+  // Both canvas flavours expose the same drawing API for what we use here
+  const context = canvas?.getContext('2d') as CanvasRenderingContext2D | null | undefined;
+  return context ? { context, width, height } : null;
+};
+
+// Dark, opaque pixels count as inside; the result is cropped to the shape's bounds
+const maskFromCanvas = ({ context, width, height }: Canvas2D, invert: boolean): ShapeMask | null => {
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const inside = new Uint8Array(width * height);
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+
+  for (let i = 0; i < width * height; i++) {
+    const alpha = pixels[i * 4 + 3] / 255;
+    // Composite over white so transparent areas read as background
+    const luminance =
+      (0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2]) * alpha +
+      255 * (1 - alpha);
+    const isInside = (luminance < 128) !== invert;
+    if (!isInside) continue;
+
+    inside[i] = 1;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+
+  if (maxX < 0) return null;
+
+  const spanX = maxX - minX + 1;
+  const spanY = maxY - minY + 1;
+  const scale = Math.min(1, MASK_RESOLUTION / Math.max(spanX, spanY));
+  const maskWidth = Math.max(1, Math.round(spanX * scale));
+  const maskHeight = Math.max(1, Math.round(spanY * scale));
+  const data = new Uint8Array(maskWidth * maskHeight);
+
+  for (let row = 0; row < maskHeight; row++) {
+    const sourceY = minY + Math.floor(((row + 0.5) / maskHeight) * spanY);
+    for (let col = 0; col < maskWidth; col++) {
+      const sourceX = minX + Math.floor(((col + 0.5) / maskWidth) * spanX);
+      data[row * maskWidth + col] = inside[sourceY * width + sourceX];
+    }
+  }
+
+  return { width: maskWidth, height: maskHeight, data };
+};
+
+const rasterizeText = (text: string): ShapeMask | null => {
+  const fontSize = 200;
+  const font = `bold ${fontSize}px sans-serif`;
+  const probe = createCanvas(1, 1);
+  if (!probe) return null;
+
+  probe.context.font = font;
+  const textWidth = Math.ceil(probe.context.measureText(text).width);
+  const canvas = createCanvas(Math.min(textWidth + 40, 4096), fontSize + 60);
+  if (!canvas) return null;
+
+  canvas.context.font = font;
+  canvas.context.textBaseline = 'middle';
+  canvas.context.fillStyle = '#000';
+  canvas.context.fillText(text, 20, canvas.height / 2);
+  return maskFromCanvas(canvas, false);
+};
+
+const rasterizeSvgPath = (path: string): ShapeMask | null => {
+  if (typeof Path2D === 'undefined') return null;
+  const canvas = createCanvas(RENDER_SIZE, RENDER_SIZE);
+  if (!canvas) return null;
+
+  // Path2D has no bounding box API, so scale by the largest coordinate and crop afterwards
+  const numbers = (path.match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || []).map(Number);
+  const extent = Math.max(1, ...numbers.map(n => Math.abs(n)));
+  const scale = (RENDER_SIZE * 0.45) / extent;
+
+  try {
+    canvas.context.translate(RENDER_SIZE / 2, RENDER_SIZE / 2);
+    canvas.context.scale(scale, scale);
+    canvas.context.fillStyle = '#000';
+    canvas.context.fill(new Path2D(path));
+  } catch (error) {
+    console.warn('🔷 SHAPE MASK: Could not draw SVG path', error);
+    return null;
+  }
+
+  return maskFromCanvas(canvas, false);
+};
+
+const rasterizeImage = async (url: string, invert: boolean): Promise<ShapeMask | null> => {
+  const response = await fetch(url);
+  const bitmap = await createImageBitmap(await response.blob());
+
+  const scale = Math.min(1, (MASK_RESOLUTION * 2) / Math.max(bitmap.width, bitmap.height));
+  const canvas = createCanvas(
+    Math.max(1, Math.round(bitmap.width * scale)),
+    Math.max(1, Math.round(bitmap.height * scale))
+  );
+  if (!canvas) return null;
+
+  canvas.context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return maskFromCanvas(canvas, invert);
+};
+
+export type ShapeSource = {
+  shape: string;
+  text: string;
+  svgPath: string;
+  maskImage: string;
+  invertMask: boolean;
+};
+
+// undefined = still loading, null = failed or unsupported here
+const maskCache = new Map<string, ShapeMask | null | undefined>();
+
+const remember = <T,>(cache: Map<string, T>, key: string, value: T, limit: number) => {
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > limit) {
+    cache.delete(cache.keys().next().value as string);
+  }
+};
+
+export const maskKey = (source: ShapeSource): string => {
+  switch (source.shape) {
+    case 'text':
+      return `text:${source.text}`;
+    case 'svg':
+      return `svg:${source.svgPath}`;
+    case 'image':
+      return `image:${source.invertMask ? 1 : 0}:${source.maskImage}`;
+    default:
+      return `builtin:${source.shape}`;
+  }
+};
+
+// Returns the mask for a shape, or null while it's unavailable (custom masks load lazily)
+export const getShapeMask = (source: ShapeSource): ShapeMask | null => {
+  const key = maskKey(source);
+  if (maskCache.has(key)) {
+    return maskCache.get(key) ?? null;
+  }
+
+  const builtIn = BUILT_IN_SHAPES[source.shape];
+  if (builtIn) {
+    const mask = rasterizePolygon(builtIn());
+    remember(maskCache, key, mask, MAX_CACHED_MASKS);
+    return mask;
+  }
+
+  if (source.shape === 'text') {
+    const mask = source.text.trim() ? rasterizeText(source.text.trim()) : null;
+    remember(maskCache, key, mask, MAX_CACHED_MASKS);
+    return mask;
+  }
+
+  if (source.shape === 'svg') {
+    const mask = source.svgPath.trim() ? rasterizeSvgPath(source.svgPath.trim()) : null;
+    remember(maskCache, key, mask, MAX_CACHED_MASKS);
+    return mask;
+  }
+
+  if (source.shape === 'image' && source.maskImage && typeof createImageBitmap !== 'undefined') {
+    remember(maskCache, key, undefined, MAX_CACHED_MASKS);
+    rasterizeImage(source.maskImage, source.invertMask)
+      .then(mask => remember(maskCache, key, mask, MAX_CACHED_MASKS))
+      .catch(error => {
+        console.warn('🔷 SHAPE MASK: Could not load mask image', error);
+        remember(maskCache, key, null, MAX_CACHED_MASKS);
+      });
+    return null;
+  }
+
+  return null;
+};
+
+const layoutCache = new Map<string, Point[]>();
+
+const latticePoints = (mask: ShapeMask, scale: number, cellWidth: number, cellHeight: number): Point[] => {
+  const shapeWidth = mask.width * scale;
+  const shapeHeight = mask.height * scale;
+  const columns = Math.floor(shapeWidth / cellWidth);
+  const rows = Math.floor(shapeHeight / cellHeight);
+  const offsetX = (shapeWidth - columns * cellWidth) / 2 + cellWidth / 2;
+  const offsetY = (shapeHeight - rows * cellHeight) / 2 + cellHeight / 2;
+  const points: Point[] = [];
+
+  // Bottom row first so the formation builds upwards like the grid wall
+  for (let row = rows - 1; row >= 0; row--) {
+    const y = offsetY + row * cellHeight;
+    const maskRow = Math.min(mask.height - 1, Math.floor(y / scale));
+    for (let col = 0; col < columns; col++) {
+      const x = offsetX + col * cellWidth;
+      const maskCol = Math.min(mask.width - 1, Math.floor(x / scale));
+      if (mask.data[maskRow * mask.width + maskCol]) {
+        points.push([x - shapeWidth / 2, shapeHeight - y]);
+      }
+    }
+  }
+
+  return points;
+};
+
+// Finds the smallest scale at which a cell lattice laid over the mask has at least
+// `count` cells inside the shape. Returns x centred on 0 and y measured up from the
+// shape's bottom edge.
+export const sampleMask = (
+  mask: ShapeMask,
+  key: string,
+  count: number,
+  cellWidth: number,
+  cellHeight: number
+): Point[] => {
+  const cacheKey = `${key}|${count}|${cellWidth.toFixed(3)}|${cellHeight.toFixed(3)}`;
+  const cached = layoutCache.get(cacheKey);
+  if (cached) return cached;
+
+  let filled = 0;
+  for (let i = 0; i < mask.data.length; i++) filled += mask.data[i];
+  if (count <= 0 || filled === 0) return [];
+
+  // Start from the area estimate, then grow until enough cells land inside
+  let low = Math.sqrt((count * cellWidth * cellHeight) / filled) * 0.8;
+  let high = low;
+  let points = latticePoints(mask, high, cellWidth, cellHeight);
+  for (let i = 0; i < 80 && points.length < count; i++) {
+    low = high;
+    high *= 1.15;
+    points = latticePoints(mask, high, cellWidth, cellHeight);
+  }
+
+  // Tighten the fit so we don't leave a ring of spare cells
+  for (let i = 0; i < 12 && points.length >= count; i++) {
+    const mid = (low + high) / 2;
+    const candidate = latticePoints(mask, mid, cellWidth, cellHeight);
+    if (candidate.length >= count) {
+      high = mid;
+      points = candidate;
+    } else {
+      low = mid;
+    }
+  }
+
+  // Drop surplus cells evenly rather than trimming the top of the shape
+  const result = points.length > count
+    ? Array.from({ length: count }, (_, i) => points[Math.floor((i * points.length) / count)])
+    : points;
+
+  remember(layoutCache, cacheKey, result, MAX_CACHED_LAYOUTS);
+  return result;
+};
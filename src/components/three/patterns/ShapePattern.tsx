@@ -0,0 +1,133 @@
+import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
+import { getShapeMask, maskKey, sampleMask } from './ShapeMask';
+
+type ShapeOptions = {
+  shape: string;
+  text: string;
+  svgPath: string;
+  maskImage: string;
+  invertMask: boolean;
+  depth: number;
+};
+
+const FALLBACK_SHAPE = 'heart';
+
+export class ShapePattern extends BasePattern<ShapeOptions> {
+  generatePositions(time: number): PatternState {
+    const positions: Position[] = [];
+    const rotations: [number, number, number][] = [];
+
+    const totalPhotos = this.slotCount;
+    const photoSize = this.settings.photoSize || 4.0;
+    const photoWidth = photoSize * (9 / 16);
+    // photoSpacing is measured in photo widths, same as the grid wall
+    const gap = (this.settings.photoSpacing || 0) * photoWidth;
+    const cellWidth = photoWidth + gap;
+    const cellHeight = photoSize + gap;
+
+    // Custom masks load lazily, so show the heart until they're ready (or if they fail)
+    let source = this.options;
+    let mask = getShapeMask(source);
+    if (!mask) {
+      source = { ...this.options, shape: FALLBACK_SHAPE };
+      mask = getShapeMask(source);
+    }
+
+    const layout = mask
+      ? sampleMask(mask, maskKey(source), totalPhotos, cellWidth, cellHeight)
+      : [];
+
+    const wallHeight = this.settings.wallHeight || 0;
+    const speed = this.settings.animationSpeed / 100;
+    const animationTime = this.settings.animationEnabled ? time * speed : 0;
+
+    for (let i = 0; i < totalPhotos; i++) {
+      // If the lattice couldn't fit everything, stack the overflow behind the shape
+      const point = layout.length > 0 ? layout[i % layout.length] : [0, cellHeight / 2];
+      const layer = layout.length > 0 ? Math.floor(i / layout.length) : i;
+
+      const x = point[0];
+      const y = wallHeight + point[1];
+      let z = -layer * photoWidth;
+
+      if (this.settings.animationEnabled) {
+        // Gentle breathing in depth so the formation doesn't look like a flat print
+        z += Math.sin(animationTime * 0.8 + x * 0.15 + y * 0.1) * this.options.depth;
+      }
+
+      positions.push([x, y, z]);
+
+      if (this.settings.photoRotation) {
+        const rotationY = Math.atan2(x, z + 10);
+        const rotationX = Math.sin(animationTime * 0.3 + y * 0.05) * 0.05;
+        rotations.push([rotationX, rotationY, 0]);
+      } else {
+        rotations.push([0, 0, 0]);
+      }
+    }
+
+    return { positions, rotations };
+  }
+}
+
+PatternRegistry.register<ShapeOptions>({
+  id: 'shape',
+  name: 'Shape',
+  pattern: ShapePattern,
+  schema: [
+    {
+      key: 'shape',
+      label: 'Shape',
+      type: 'select',
+      options: [
+        { value: 'heart', label: 'Heart' },
+        { value: 'star', label: 'Star' },
+        { value: 'circle', label: 'Circle' },
+        { value: 'text', label: 'Text' },
+        { value: 'svg', label: 'SVG Path' },
+        { value: 'image', label: 'Mask Image' },
+      ],
+      description: 'Photos fill the shape; it grows or shrinks with the photo count',
+    },
+    {
+      key: 'text',
+      label: 'Text',
+      type: 'text',
+      placeholder: 'e.g. Sam & Alex',
+      showWhen: options => options.shape === 'text',
+    },
+    {
+      key: 'svgPath',
+      label: 'SVG Path Data',
+      type: 'text',
+      multiline: true,
+      placeholder: 'M10 10 L90 10 L50 90 Z',
+      description: 'Paste the "d" attribute of a single path from your logo',
+      showWhen: options => options.shape === 'svg',
+    },
+    {
+      key: 'maskImage',
+      label: 'Mask Image',
+      type: 'image',
+      accept: 'image/png,image/jpeg,image/svg+xml',
+      description: 'Black-and-white image or SVG file; dark areas are filled with photos',
+      showWhen: options => options.shape === 'image',
+    },
+    {
+      key: 'invertMask',
+      label: 'Fill Light Areas Instead',
+      type: 'checkbox',
+      showWhen: options => options.shape === 'image',
+    },
+    { key: 'depth', label: 'Breathing Depth', type: 'range', min: 0, max: 3, step: 0.1, unit: 'units' },
+  ],
+  defaults: {
+    shape: 'heart',
+    text: 'LOVE',
+    svgPath: '',
+    maskImage: '',
+    invertMask: false,
+    depth: 0.5,
+  },
+});
@@ -0,0 +1,105 @@
+import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
+
+type SphereOptions = {
+  radius: number;
+  facing: string;
+  rotationSpeed: number;
+  doubleShell: boolean;
+  innerRadiusRatio: number;
+  doubleShellThreshold: number;
+};
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export class SpherePattern extends BasePattern<SphereOptions> {
+  generatePositions(time: number): PatternState {
+    const positions: Position[] = [];
+    const rotations: [number, number, number][] = [];
+
+    const totalPhotos = this.slotCount;
+    const radius = this.options.radius;
+    const photoSize = this.settings.photoSize || 4.0;
+    const facingSign = this.options.facing === 'inward' ? -1 : 1;
+
+    // Keep the bottom of the globe (and the photos hanging off it) clear of the floor
+    const centerY = (this.settings.wallHeight || 0) + radius + photoSize;
+
+    const speed = this.settings.animationSpeed / 100;
+    const spin = this.settings.animationEnabled
+      ? time * speed * this.options.rotationSpeed
+      : 0;
+
+    // Seeded starting longitude so rerolling turns the whole lattice
+    const lattice = this.random(0) * Math.PI * 2;
+
+    // Split large counts across two shells, weighting by surface area so density matches
+    const useDoubleShell = this.options.doubleShell && totalPhotos >= this.options.doubleShellThreshold;
+    const innerRadius = radius * this.options.innerRadiusRatio;
+    const outerCount = useDoubleShell
+      ? Math.round(totalPhotos * (radius * radius) / (radius * radius + innerRadius * innerRadius))
+      : totalPhotos;
+
+    for (let i = 0; i < totalPhotos; i++) {
+      const onOuterShell = i < outerCount;
+      const shellIndex = onOuterShell ? i : i - outerCount;
+      const shellCount = onOuterShell ? outerCount : totalPhotos - outerCount;
+      const shellRadius = onOuterShell ? radius : innerRadius;
+
+      // Fibonacci lattice: evenly spaced latitudes, golden-angle longitudes
+      const y = 1 - ((shellIndex + 0.5) / shellCount) * 2;
+      const ringRadius = Math.sqrt(Math.max(0, 1 - y * y));
+      // Counter-rotate the inner shell so the two layers read as separate
+      const theta = lattice + shellIndex * GOLDEN_ANGLE + (onOuterShell ? spin : -spin);
+
+      const nx = Math.cos(theta) * ringRadius;
+      const ny = y;
+      const nz = Math.sin(theta) * ringRadius;
+
+      positions.push([
+        nx * shellRadius,
+        centerY + ny * shellRadius,
+        nz * shellRadius
+      ]);
+
+      // Orient the photo's normal along the sphere normal (or its opposite when facing inward)
+      const fx = nx * facingSign;
+      const fy = ny * facingSign;
+      const fz = nz * facingSign;
+      rotations.push([Math.atan2(-fy, fz), Math.asin(Math.max(-1, Math.min(1, fx))), 0]);
+    }
+
+    return { positions, rotations };
+  }
+}
+
+PatternRegistry.register<SphereOptions>({
+  id: 'sphere',
+  name: 'Sphere',
+  pattern: SpherePattern,
+  schema: [
+    { key: 'radius', label: 'Radius', type: 'range', min: 5, max: 60, step: 1, unit: 'units' },
+    {
+      key: 'facing',
+      label: 'Photos Face',
+      type: 'select',
+      options: [
+        { value: 'outward', label: 'Outward' },
+        { value: 'inward', label: 'Inward' },
+      ],
+      description: 'Ignored while "Rotate Photos to Face Camera" is on',
+    },
+    { key: 'rotationSpeed', label: 'Spin Speed', type: 'range', min: 0, max: 2, step: 0.05 },
+    { key: 'doubleShell', label: 'Double Shell', type: 'checkbox', description: 'Split large collages across an inner and outer globe' },
+    { key: 'innerRadiusRatio', label: 'Inner Shell Size', type: 'range', min: 0.3, max: 0.9, step: 0.05 },
+    { key: 'doubleShellThreshold', label: 'Double Shell From', type: 'range', min: 20, max: 2000, step: 10, unit: 'photos' },
+  ],
+  defaults: {
+    radius: 18,
+    facing: 'outward',
+    rotationSpeed: 0.5,
+    doubleShell: false,
+    innerRadiusRatio: 0.6,
+    doubleShellThreshold: 150,
+  },
+});
@@ -1,29 +1,40 @@
 import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
+import { relaxPositions, PHOTO_DIAMETER } from './PositionRelaxer';
 
-export class SpiralPattern extends BasePattern {
+type SpiralOptions = {
+  baseRadius: number;
+  topRadius: number;
+  maxHeight: number;
+  orbitalChance: number;
+  relaxEnabled: boolean;
+  relaxIterations: number;
+};
+
+export class SpiralPattern extends BasePattern<SpiralOptions> {
   generatePositions(time: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
 
-    const totalPhotos = Math.min(this.settings.photoCount, 500);
+    const totalPhotos = this.slotCount;
     const speed = this.settings.animationSpeed / 50;
     const animationTime = time * speed * 2;
     
     // Tornado parameters
-    const baseRadius = 3; // Narrow radius at ground level (bottom of funnel)
-    const topRadius = 30; // Wide radius at top (top of funnel)
-    const maxHeight = 40; // Height of the spiral
+    const baseRadius = this.options.baseRadius; // Narrow radius at ground level (bottom of funnel)
+    const topRadius = this.options.topRadius; // Wide radius at top (top of funnel)
+    const maxHeight = this.options.maxHeight; // Height of the spiral
     const rotationSpeed = 0.8; // Speed of rotation
-    const orbitalChance = 0.2; // 20% chance for a photo to be on an outer orbit
+    const orbitalChance = this.options.orbitalChance; // Share of photos on an outer orbit
     
     // Distribution parameters
     const verticalBias = 0.7; // Bias towards bottom for density
     
     for (let i = 0; i < totalPhotos; i++) {
       // Generate random but consistent values for each photo
-      const randomSeed1 = Math.sin(i * 0.73) * 0.5 + 0.5;
-      const randomSeed2 = Math.cos(i * 1.37) * 0.5 + 0.5;
-      const randomSeed3 = Math.sin(i * 2.11) * 0.5 + 0.5;
+      const randomSeed1 = this.random(i, 0);
+      const randomSeed2 = this.random(i, 1);
+      const randomSeed3 = this.random(i, 2);
       
       // Determine if this photo is on the main funnel or an outer orbit
       const isOrbital = randomSeed1 < orbitalChance;
@@ -100,6 +111,36 @@ export class SpiralPattern extends BasePattern {
       }
     }
 
+    if (this.options.relaxEnabled) {
+      relaxPositions(positions, {
+        minDistance: (this.settings.photoSize || 4.0) * PHOTO_DIAMETER,
+        iterations: this.options.relaxIterations,
+        minY: this.settings.wallHeight,
+      });
+    }
+
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+PatternRegistry.register<SpiralOptions>({
+  id: 'spiral',
+  name: 'Spiral',
+  pattern: SpiralPattern,
+  schema: [
+    { key: 'baseRadius', label: 'Base Radius', type: 'range', min: 1, max: 20, step: 0.5, unit: 'units' },
+    { key: 'topRadius', label: 'Top Radius', type: 'range', min: 5, max: 60, step: 1, unit: 'units' },
+    { key: 'maxHeight', label: 'Height', type: 'range', min: 10, max: 80, step: 1, unit: 'units' },
+    { key: 'orbitalChance', label: 'Outer Orbit Share', type: 'range', min: 0, max: 0.6, step: 0.05, description: 'Fraction of photos circling outside the funnel' },
+    { key: 'relaxEnabled', label: 'Prevent Overlaps', type: 'checkbox', description: 'Nudges photos apart so they stop intersecting at high photo counts' },
+    { key: 'relaxIterations', label: 'Overlap Passes', type: 'range', min: 1, max: 10, step: 1, showWhen: options => Boolean(options.relaxEnabled) },
+  ],
+  defaults: {
+    baseRadius: 3,
+    topRadius: 30,
+    maxHeight: 40,
+    orbitalChance: 0.2,
+    relaxEnabled: false,
+    relaxIterations: 3,
+  },
+});
@@ -1,11 +1,17 @@
 import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { PatternRegistry } from './PatternRegistry';
 
-export class WavePattern extends BasePattern {
+type WaveOptions = {
+  amplitude: number;
+  frequency: number;
+};
+
+export class WavePattern extends BasePattern<WaveOptions> {
   generatePositions(time: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
     const spacing = this.settings.photoSize * (1 + this.settings.photoSpacing);
-    const totalPhotos = Math.min(this.settings.photoCount, 500);
+    const totalPhotos = this.slotCount;
     
     // Calculate grid dimensions based on total photos
     const columns = Math.ceil(Math.sqrt(totalPhotos));
@@ -25,8 +31,8 @@ export class WavePattern extends BasePattern {
       
       // Calculate wave height based on distance from center
       const distanceFromCenter = Math.sqrt(x * x + z * z);
-      const amplitude = 15;
-      const frequency = 0.3;
+      const amplitude = this.options.amplitude;
+      const frequency = this.options.frequency;
       
       let y = this.settings.wallHeight;
       
@@ -52,4 +58,18 @@ export class WavePattern extends BasePattern {
 
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+PatternRegistry.register<WaveOptions>({
+  id: 'wave',
+  name: 'Wave',
+  pattern: WavePattern,
+  schema: [
+    { key: 'amplitude', label: 'Wave Height', type: 'range', min: 0, max: 30, step: 0.5, unit: 'units' },
+    { key: 'frequency', label: 'Ripple Frequency', type: 'range', min: 0.05, max: 1, step: 0.05 },
+  ],
+  defaults: {
+    amplitude: 15,
+    frequency: 0.3,
+  },
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { defaultSettings, type SceneSettings } from '../../../store/sceneStore';
+import { PatternFactory, PatternRegistry, findCentreSlot } from './PatternFactory';
+import { type PatternState, type Position } from './BasePattern';
+import { relaxPositions, PHOTO_DIAMETER } from './PositionRelaxer';
+import { GridPattern } from './GridPattern';
+import { PatternEngine } from './PatternEngine';
+
+// Patterns that intentionally pass through the floor (photos rise from below it, or the
+// wave dips under it when wallHeight is 0)
+const BELOW_FLOOR_ALLOWED = new Set(['float', 'wave']);
+
+type Case = {
+  name: string;
+  time: number;
+  settings: Partial<SceneSettings>;
+};
+
+const CASES: Case[] = [
+  { name: '12 photos at rest', time: 0, settings: { photoCount: 12 } },
+  { name: '40 photos animated', time: 3.7, settings: { photoCount: 40 } },
+  { name: '40 photos paused', time: 3.7, settings: { photoCount: 40, animationEnabled: false } },
+  { name: '40 photos, spaced, no rotation', time: 1.2, settings: { photoCount: 40, photoSpacing: 0.5, photoRotation: false } },
+];
+
+const makeSettings = (overrides: Partial<SceneSettings> = {}): SceneSettings => ({
+  ...defaultSettings,
+  ...overrides,
+});
+
+const run = (patternId: string, settings: SceneSettings, time: number): PatternState =>
+  PatternFactory.createPattern(patternId, settings, []).generatePositions(time);
+
+const round = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? 0 : rounded;
+};
+
+// One line per slot keeps the golden files small and the diffs readable
+const serialize = (state: PatternState): string[] =>
+  state.positions.map((position, i) => {
+    const rotation = state.rotations?.[i] || [0, 0, 0];
+    return `${position.map(round).join(', ')} | ${rotation.map(round).join(', ')}`;
+  });
+
+const patternIds = PatternRegistry.list().map(definition => definition.id);
+
+describe('patterns', () => {
+  it('registers the built-in patterns', () => {
+    expect(patternIds).toEqual(expect.arrayContaining(['grid', 'float', 'wave', 'spiral', 'sphere', 'shape']));
+  });
+
+  describe.each(patternIds)('%s', (patternId) => {
+    it.each(CASES)('matches the golden snapshot: $name', ({ settings, time }) => {
+      expect(serialize(run(patternId, makeSettings(settings), time))).toMatchSnapshot();
+    });
+
+    it.each([1, 12, 40, 250, 500, 800])('returns one position per slot for %i photos', (photoCount) => {
+      const state = run(patternId, makeSettings({ photoCount }), 2.5);
+      const expected = Math.min(photoCount, 500);
+      expect(state.positions).toHaveLength(expected);
+      expect(state.rotations).toHaveLength(expected);
+    });
+
+    it('lays out thousands of slots for the instanced renderer', () => {
+      const state = run(patternId, makeSettings({ photoCount: 3000, renderMode: 'instanced' }), 2.5);
+      expect(state.positions).toHaveLength(3000);
+    });
+
+    it.each(CASES)('produces finite values: $name', ({ settings, time }) => {
+      const state = run(patternId, makeSettings(settings), time);
+      const values = [...state.positions.flat(), ...(state.rotations || []).flat()];
+      expect(values.every(Number.isFinite)).toBe(true);
+    });
+
+    it.skipIf(BELOW_FLOOR_ALLOWED.has(patternId)).each(CASES)('stays above the floor: $name', ({ settings, time }) => {
+      const state = run(patternId, makeSettings(settings), time);
+      const lowest = Math.min(...state.positions.map(position => position[1]));
+      expect(lowest).toBeGreaterThanOrEqual(0);
+    });
+
+    it('is reproducible for a seed', () => {
+      const a = run(patternId, makeSettings({ photoCount: 40, seed: 7 }), 1.5);
+      const b = run(patternId, makeSettings({ photoCount: 40, seed: 7 }), 1.5);
+      expect(serialize(a)).toEqual(serialize(b));
+    });
+  });
+
+  it.each(['float', 'spiral', 'sphere'])('%s changes layout when the seed changes', (patternId) => {
+    const a = run(patternId, makeSettings({ photoCount: 40, seed: 1 }), 0);
+    const b = run(patternId, makeSettings({ photoCount: 40, seed: 2 }), 0);
+    expect(serialize(a)).not.toEqual(serialize(b));
+  });
+
+  describe('grid wall at t=0', () => {
+    const photoSize = defaultSettings.photoSize;
+    const width = photoSize * (9 / 16);
+    const height = photoSize;
+
+    const overlaps = (state: PatternState) => {
+      const found: string[] = [];
+      const { positions } = state;
+      for (let i = 0; i < positions.length; i++) {
+        for (let j = i + 1; j < positions.length; j++) {
+          const dx = width - Math.abs(positions[i][0] - positions[j][0]);
+          const dy = height - Math.abs(positions[i][1] - positions[j][1]);
+          if (dx > 1e-6 && dy > 1e-6) {
+            found.push(`${i}/${j} (${round(dx)} x ${round(dy)})`);
+          }
+        }
+      }
+      return found;
+    };
+
+    it.each([0.05, 0.5, 1])('leaves no two slots overlapping with %f spacing', (photoSpacing) => {
+      const state = run('grid', makeSettings({ photoCount: 100, photoSpacing }), 0);
+      expect(overlaps(state)).toEqual([]);
+    });
+
+    it('never stacks two slots on the same spot with zero spacing', () => {
+      // Zero spacing deliberately overlaps neighbouring edges a little to hide seams
+      const state = run('grid', makeSettings({ photoCount: 100, photoSpacing: 0 }), 0);
+      const keys = new Set(state.positions.map(position => position.map(round).join(',')));
+      expect(keys.size).toBe(state.positions.length);
+    });
+  });
+
+  describe('overlap relaxation', () => {
+    const minDistance = defaultSettings.photoSize * PHOTO_DIAMETER;
+
+    const countOverlaps = (positions: Position[]) => {
+      let overlaps = 0;
+      for (let i = 0; i < positions.length; i++) {
+        for (let j = i + 1; j < positions.length; j++) {
+          const dx = positions[i][0] - positions[j][0];
+          const dy = positions[i][1] - positions[j][1];
+          const dz = positions[i][2] - positions[j][2];
+          if (dx * dx + dy * dy + dz * dz < minDistance * minDistance * 0.99) overlaps++;
+        }
+      }
+      return overlaps;
+    };
+
+    const withRelax = (patternId: string, relaxEnabled: boolean) => makeSettings({
+      animationPattern: patternId,
+      photoCount: 500,
+      patterns: { [patternId]: { relaxEnabled, relaxIterations: 4 } },
+    });
+
+    it('separates stacked photos', () => {
+      const positions: Position[] = [[0, 5, 0], [0, 5, 0], [0.1, 5, 0]];
+      relaxPositions(positions, { minDistance: 4, iterations: 10 });
+      expect(countOverlaps(positions.map(p => p.map(v => v * (minDistance / 4)) as Position))).toBe(0);
+    });
+
+    it('respects the minimum height', () => {
+      const positions: Position[] = [[0, 0, 0], [0, 0.5, 0]];
+      relaxPositions(positions, { minDistance: 4, iterations: 5, minY: 0 });
+      expect(Math.min(positions[0][1], positions[1][1])).toBeGreaterThanOrEqual(0);
+    });
+
+    it.each(['float', 'spiral'])('reduces overlaps for %s at the photo cap', (patternId) => {
+      const before = countOverlaps(run(patternId, withRelax(patternId, false), 2).positions);
+      const after = countOverlaps(run(patternId, withRelax(patternId, true), 2).positions);
+      expect(before).toBeGreaterThan(0);
+      expect(after).toBeLessThan(before / 2);
+    });
+
+    it('is cheap enough to run every frame', () => {
+      const base = run('spiral', withRelax('spiral', false), 2).positions;
+      const started = performance.now();
+      for (let frame = 0; frame < 20; frame++) {
+        relaxPositions(base.map(p => [p[0], p[1], p[2]] as Position), { minDistance, iterations: 4 });
+      }
+      // Generous bound so slow CI machines do not flake; typical runs are well under 1ms
+      expect((performance.now() - started) / 20).toBeLessThan(16);
+    });
+  });
+
+  describe('findCentreSlot', () => {
+    it('picks the middle of an odd grid wall', () => {
+      const settings = makeSettings({ animationPattern: 'grid', photoCount: 25, gridAspectRatio: 1 });
+      const slot = findCentreSlot(settings);
+      const { positions } = run('grid', { ...settings, animationEnabled: false }, 0);
+      const xs = positions.map(p => p[0]);
+      const ys = positions.map(p => p[1]);
+      expect(positions[slot][0]).toBeCloseTo((Math.min(...xs) + Math.max(...xs)) / 2, 1);
+      expect(positions[slot][1]).toBeCloseTo((Math.min(...ys) + Math.max(...ys)) / 2, 1);
+    });
+
+    it('stays within the slot count for every pattern', () => {
+      for (const animationPattern of patternIds) {
+        const slot = findCentreSlot(makeSettings({ animationPattern, photoCount: 40 }));
+        expect(slot).toBeGreaterThanOrEqual(0);
+        expect(slot).toBeLessThan(40);
+      }
+    });
+  });
+
+  describe('pattern engine', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.unstubAllGlobals();
+    });
+
+    // Lets the posted messages (queued as microtasks) and their replies land
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    // Runs PatternWorker.tsx in this thread, passing messages both ways asynchronously.
+    // The worker module binds to `self` when it first loads, so only one test may use this
+    const stubWorker = async () => {
+      const scope: {
+        onmessage: ((event: { data: unknown }) => void) | null;
+        postMessage: (data: unknown) => void;
+      } = { onmessage: null, postMessage: () => {} };
+      vi.stubGlobal('self', scope);
+      await import('./PatternWorker');
+
+      vi.stubGlobal('Worker', class {
+        onmessage: ((event: { data: unknown }) => void) | null = null;
+        onerror = null;
+        constructor() {
+          scope.postMessage = (data) => queueMicrotask(() => this.onmessage?.({ data }));
+        }
+        postMessage(data: unknown) {
+          queueMicrotask(() => scope.onmessage?.({ data }));
+        }
+        terminate() {}
+      });
+    };
+
+    it('keeps producing frames after the worker throws', async () => {
+      await stubWorker();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const generate = vi.spyOn(GridPattern.prototype, 'generatePositions')
+        .mockImplementationOnce(() => { throw new Error('pattern failed'); });
+
+      const engine = new PatternEngine(100);
+      engine.update(makeSettings({ animationPattern: 'grid', photoCount: 12 }), [], 0);
+
+      engine.step(0, 0);
+      await flush();
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(engine.count).toBe(0);
+
+      engine.step(0.1, 0.1);
+      await flush();
+      expect(engine.count).toBe(12);
+
+      engine.dispose();
+    });
+
+    it('keeps producing frames after a main-thread frame throws', () => {
+      vi.stubGlobal('Worker', undefined);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(GridPattern.prototype, 'generatePositions')
+        .mockImplementationOnce(() => { throw new Error('pattern failed'); });
+
+      const engine = new PatternEngine(100);
+      engine.update(makeSettings({ animationPattern: 'grid', photoCount: 12 }), [], 0);
+
+      expect(() => engine.step(0, 0)).not.toThrow();
+      engine.step(0.1, 0.1);
+      expect(engine.count).toBe(12);
+    });
+  });
+});
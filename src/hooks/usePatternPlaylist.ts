@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { type SceneSettings, type PlaylistItem } from '../store/sceneStore';
+
+const TICK_INTERVAL = 250;
+
+const buildOrder = (length: number, shuffle: boolean): number[] => {
+  const order = Array.from({ length }, (_, i) => i);
+  if (shuffle) {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  }
+  return order;
+};
+
+// Applies a playlist item on top of the collage settings
+export const applyPlaylistItem = (settings: SceneSettings, item: PlaylistItem): SceneSettings => ({
+  ...settings,
+  ...item.overrides,
+  animationPattern: item.pattern,
+  animationEnabled: true,
+  patterns: {
+    ...settings.patterns,
+    ...item.overrides.patterns
+  },
+  playlist: settings.playlist
+});
+
+// Cycles the collage through its pattern playlist for unattended displays.
+// Returns the settings the scene should render with right now and the item they came
+// from. Video wall followers pass the leader's item in followItemId and run no timer
+// of their own, so every tile shows the same pattern.
+export const usePatternPlaylist = (
+  settings: SceneSettings,
+  photoCount: number,
+  followItemId?: string | null
+): { settings: SceneSettings; itemId: string | null } => {
+  const following = followItemId !== undefined;
+  const playlist = settings?.playlist;
+  const items = playlist?.enabled ? playlist.items.filter(item => item.dwell > 0) : [];
+  const itemsKey = items.map(item => `${item.id}:${item.pattern}:${item.dwell}`).join('|');
+
+  const [order, setOrder] = useState<number[]>(() => buildOrder(items.length, !!playlist?.shuffle));
+  const [position, setPosition] = useState(0);
+  const deadlineRef = useRef(0);
+  const lastPhotoCountRef = useRef(photoCount);
+
+  // Restart from the top whenever the playlist itself is edited
+  useEffect(() => {
+    setOrder(buildOrder(items.length, !!playlist?.shuffle));
+    setPosition(0);
+    deadlineRef.current = 0;
+  }, [itemsKey, playlist?.shuffle]);
+
+  const currentIndex = order[position];
+  const currentItem = currentIndex !== undefined ? items[currentIndex] : undefined;
+  const currentId = currentItem?.id;
+  const currentDwell = currentItem?.dwell ?? 0;
+
+  // Read by the timer, which only restarts when the item changes, not on every settings save
+  const lapRef = useRef({ loop: false, shuffle: false, count: 0 });
+  lapRef.current = { loop: !!playlist?.loop, shuffle: !!playlist?.shuffle, count: items.length };
+
+  // Hold the current pattern a little longer when a new photo lands
+  useEffect(() => {
+    if (photoCount > lastPhotoCountRef.current && playlist?.pauseOnNewPhoto && deadlineRef.current) {
+      deadlineRef.current += (playlist.newPhotoPause || 0) * 1000;
+    }
+    lastPhotoCountRef.current = photoCount;
+  }, [photoCount, playlist?.pauseOnNewPhoto, playlist?.newPhotoPause]);
+
+  useEffect(() => {
+    if (!currentId || following) return;
+
+    deadlineRef.current = Date.now() + currentDwell * 1000;
+
+    const interval = setInterval(() => {
+      if (Date.now() < deadlineRef.current) return;
+
+      if (position < order.length - 1) {
+        setPosition(position + 1);
+      } else if (lapRef.current.loop) {
+        // Reshuffle each lap so long events don't repeat the same sequence
+        setOrder(buildOrder(lapRef.current.count, lapRef.current.shuffle));
+        setPosition(0);
+      } else {
+        clearInterval(interval);
+      }
+    }, TICK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [currentId, currentDwell, position, order, following]);
+
+  const shownItem = following ? items.find(item => item.id === followItemId) : currentItem;
+
+  return useMemo(
+    () => ({
+      settings: shownItem ? applyPlaylistItem(settings, shownItem) : settings,
+      itemId: shownItem?.id ?? null,
+    }),
+    [settings, shownItem]
+  );
+};
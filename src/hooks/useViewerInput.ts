@@ -0,0 +1,120 @@
+import { useEffect, useMemo, useRef } from 'react';
+import {
+  CONTINUOUS_ACTIONS,
+  actionsByInput,
+  keyName,
+  type CameraInput,
+  type InputAction,
+} from '../lib/inputMap';
+
+// Stick travel ignored as drift
+const GAMEPAD_DEADZONE = 0.15;
+
+const clampAxis = (value: number) => Math.max(-1, Math.min(1, value));
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Drives the viewer from the keyboard and any connected gamepads. Held camera actions
+// and the sticks are written into `cameraInput` every frame; everything else is
+// reported through `onAction` once per press
+export const useViewerInput = ({
+  bindings,
+  enabled,
+  cameraInput,
+  onAction,
+}: {
+  bindings: Record<string, string[]>;
+  enabled: boolean;
+  cameraInput: CameraInput;
+  onAction: (action: InputAction) => void;
+}) => {
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  const lookup = useMemo(() => actionsByInput(bindings), [bindings]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const heldKeys = new Set<InputAction>();
+    const pressedButtons = new Set<string>();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Leave typing (e.g. photo captions) and browser shortcuts alone
+      if (isTyping(event.target) || event.ctrlKey || event.metaKey || event.altKey) return;
+      const actions = lookup.get(keyName(event));
+      if (!actions) return;
+
+      // Arrow keys and space would otherwise scroll the page
+      event.preventDefault();
+      for (const action of actions) {
+        if (CONTINUOUS_ACTIONS.includes(action)) heldKeys.add(action);
+        else if (!event.repeat) onActionRef.current(action);
+      }
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      lookup.get(keyName(event))?.forEach(action => heldKeys.delete(action));
+    };
+
+    // Keys released while the window was in the background never send keyup
+    const handleBlur = () => heldKeys.clear();
+
+    let frame = 0;
+    const poll = () => {
+      const heldButtons = new Set<InputAction>();
+      let stickX = 0;
+      let stickY = 0;
+      let stickZoom = 0;
+
+      const gamepads = navigator.getGamepads ? navigator.getGamepads() : [];
+      for (const pad of gamepads) {
+        if (!pad) continue;
+
+        pad.buttons.forEach((button, index) => {
+          const id = `${pad.index}:${index}`;
+          if (!button.pressed) {
+            pressedButtons.delete(id);
+            return;
+          }
+          const firstFrame = !pressedButtons.has(id);
+          pressedButtons.add(id);
+          for (const action of lookup.get(`Pad${index}`) || []) {
+            if (CONTINUOUS_ACTIONS.includes(action)) heldButtons.add(action);
+            else if (firstFrame) onActionRef.current(action);
+          }
+        });
+
+        // Left stick orbits, right stick up/down zooms
+        const axis = (value = 0) => (Math.abs(value) > GAMEPAD_DEADZONE ? value : 0);
+        stickX += axis(pad.axes[0]);
+        stickY -= axis(pad.axes[1]);
+        stickZoom -= axis(pad.axes[3]);
+      }
+
+      const held = (action: InputAction) => (heldKeys.has(action) || heldButtons.has(action) ? 1 : 0);
+      cameraInput.orbitX = clampAxis(held('orbitRight') - held('orbitLeft') + stickX);
+      cameraInput.orbitY = clampAxis(held('orbitUp') - held('orbitDown') + stickY);
+      cameraInput.zoom = clampAxis(held('zoomIn') - held('zoomOut') + stickZoom);
+
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      cameraInput.orbitX = 0;
+      cameraInput.orbitY = 0;
+      cameraInput.zoom = 0;
+    };
+  }, [enabled, lookup, cameraInput]);
+};
@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { ease } from './easing';
+import { type CameraKeyframe } from '../store/sceneStore';
+
+export type CameraPose = {
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number;
+};
+
+// Lets the editor UI, which lives outside the canvas, read and set the live camera
+export type CameraProbe = {
+  capture: (() => CameraPose) | null;
+  goTo: ((pose: CameraPose) => void) | null;
+};
+
+export const createCameraProbe = (): CameraProbe => ({ capture: null, goTo: null });
+
+export type CameraPathSample = {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  fov: number;
+};
+
+// A looping fly-through: Catmull-Rom splines through the keyframe positions and targets,
+// eased between each pair of keyframes so the camera settles on every one
+export class CameraPath {
+  readonly duration: number;
+  private positions: THREE.CatmullRomCurve3;
+  private targets: THREE.CatmullRomCurve3;
+  private starts: number[] = [];
+  private sample: CameraPathSample = {
+    position: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+    fov: 75,
+  };
+
+  constructor(private keyframes: CameraKeyframe[], private easing: string) {
+    const toVector = (value: [number, number, number]) => new THREE.Vector3(...value);
+    this.positions = new THREE.CatmullRomCurve3(keyframes.map(k => toVector(k.position)), true, 'centripetal');
+    this.targets = new THREE.CatmullRomCurve3(keyframes.map(k => toVector(k.target)), true, 'centripetal');
+
+    let total = 0;
+    for (const keyframe of keyframes) {
+      this.starts.push(total);
+      total += Math.max(keyframe.duration, 0.1);
+    }
+    this.duration = total;
+  }
+
+  // Pose at `time` seconds into the loop. The returned object is reused between calls
+  at(time: number): CameraPathSample {
+    const count = this.keyframes.length;
+    const looped = ((time % this.duration) + this.duration) % this.duration;
+
+    let index = count - 1;
+    while (index > 0 && this.starts[index] > looped) index--;
+
+    const next = (index + 1) % count;
+    const span = Math.max(this.keyframes[index].duration, 0.1);
+    const t = ease(this.easing, (looped - this.starts[index]) / span);
+
+    // Closed curves spread their points evenly over 0..1
+    const u = (index + t) / count;
+    this.positions.getPoint(u, this.sample.position);
+    this.targets.getPoint(u, this.sample.target);
+    this.sample.fov = THREE.MathUtils.lerp(this.keyframes[index].fov, this.keyframes[next].fov, t);
+    return this.sample;
+  }
+}
+
+// Null when there aren't enough keyframes to make a path
+export const createCameraPath = (keyframes: CameraKeyframe[] | undefined, easing: string): CameraPath | null =>
+  keyframes && keyframes.length >= 2 ? new CameraPath(keyframes, easing) : null;
@@ -0,0 +1,78 @@
+import { Zip, ZipPassThrough } from 'fflate';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'image/avif': 'avif',
+};
+
+// Extension from the file's type, else from its URL, so PNG and WebP uploads keep theirs
+const fileName = (photo: { id: string; url: string }, blob: Blob) => {
+  const fromUrl = /\.([a-z0-9]{2,5})$/i.exec(new URL(photo.url).pathname)?.[1].toLowerCase();
+  return `photo-${photo.id.slice(-8)}.${EXTENSIONS[blob.type] || fromUrl || 'jpg'}`;
+};
+
+const fetchPhoto = async (photo: { url: string }): Promise<Blob> => {
+  const response = await fetch(photo.url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.blob();
+};
+
+const saveBlob = (blob: Blob, name: string) => {
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+};
+
+// Saves a photo to the device. Cross-origin links ignore the download attribute,
+// so the file is fetched first; throws if that fails
+export const downloadPhoto = async (photo: { id: string; url: string }): Promise<void> => {
+  const blob = await fetchPhoto(photo);
+  saveBlob(blob, fileName(photo, blob));
+};
+
+// Saves several photos as one zip, since browsers block a burst of separate downloads.
+// The archive is streamed a photo at a time into blob parts rather than built in one go,
+// so large selections don't freeze the page. Photos that fail to fetch are left out;
+// returns how many that was
+export const downloadPhotos = async (
+  photos: { id: string; url: string }[],
+  archiveName: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  const parts: Uint8Array[] = [];
+  let zipError: Error | null = null;
+  const zip = new Zip((error, chunk) => {
+    if (error) zipError = error;
+    else parts.push(chunk);
+  });
+
+  let failed = 0;
+  for (let i = 0; i < photos.length; i++) {
+    try {
+      const blob = await fetchPhoto(photos[i]);
+      const data = new Uint8Array(await blob.arrayBuffer());
+      // JPEGs and the like are already compressed, so store them as they are
+      const entry = new ZipPassThrough(fileName(photos[i], blob));
+      zip.add(entry);
+      entry.push(data, true);
+    } catch (error) {
+      console.error('❌ Download failed:', photos[i].id, error);
+      failed++;
+    }
+    onProgress?.(i + 1, photos.length);
+  }
+  zip.end();
+
+  if (zipError) throw zipError;
+  if (failed === photos.length) throw new Error('None of the photos could be downloaded');
+
+  saveBlob(new Blob(parts, { type: 'application/zip' }), `${archiveName}.zip`);
+  return failed;
+};
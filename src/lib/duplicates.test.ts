@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { groupDuplicates } from './duplicates';
+import { createRandom } from './random';
+
+type TestPhoto = { id: string; created_at: string; phash: string | null; duplicate_of?: string | null };
+
+const photo = (id: string, minute: number, phash: string | null, duplicate_of: string | null = null): TestPhoto => ({
+  id,
+  created_at: new Date(Date.UTC(2025, 5, 1, 12, minute)).toISOString(),
+  phash,
+  duplicate_of,
+});
+
+const ids = (groups: TestPhoto[][]) => groups.map(group => group.map(p => p.id));
+
+describe('groupDuplicates', () => {
+  it.each([
+    {
+      name: 'no photos',
+      photos: [],
+      expected: [],
+    },
+    {
+      name: 'photos that all differ',
+      photos: [photo('a', 0, '0000000000000000'), photo('b', 1, 'ffffffffffffffff'), photo('c', 2, '00000000ffffffff')],
+      expected: [],
+    },
+    {
+      name: 'an exact copy',
+      photos: [photo('a', 0, '0123456789abcdef'), photo('b', 1, '0123456789abcdef')],
+      expected: [['a', 'b']],
+    },
+    {
+      name: 'a copy exactly at the distance limit',
+      photos: [photo('a', 0, '0000000000000000'), photo('b', 1, '000000000000003f')],
+      expected: [['a', 'b']],
+    },
+    {
+      name: 'a copy one bit past the limit',
+      photos: [photo('a', 0, '0000000000000000'), photo('b', 1, '000000000000007f')],
+      expected: [],
+    },
+    {
+      name: 'a chain of small changes',
+      photos: [photo('a', 0, '0000000000000000'), photo('b', 1, '000000000000000f'), photo('c', 2, '00000000000000ff')],
+      expected: [['a', 'b', 'c']],
+    },
+    {
+      name: 'photos linked at upload with different hashes',
+      photos: [photo('a', 0, '0000000000000000'), photo('b', 1, 'ffffffffffffffff', 'a')],
+      expected: [['a', 'b']],
+    },
+    {
+      name: 'a linked copy without a hash',
+      photos: [photo('a', 0, '0000000000000000'), photo('b', 1, null, 'a')],
+      expected: [['a', 'b']],
+    },
+    {
+      name: 'a link to a photo that is no longer listed',
+      photos: [photo('b', 1, '0000000000000000', 'gone'), photo('c', 2, 'ffffffffffffffff')],
+      expected: [],
+    },
+    {
+      name: 'photos without hashes',
+      photos: [photo('a', 0, null), photo('b', 1, null)],
+      expected: [],
+    },
+    {
+      name: 'two separate bursts, newest group first',
+      photos: [
+        photo('a1', 0, '0000000000000000'),
+        photo('b2', 4, 'ffffffffffffffff'),
+        photo('a2', 1, '0000000000000001'),
+        photo('b1', 3, 'fffffffffffffffe'),
+      ],
+      expected: [['b1', 'b2'], ['a1', 'a2']],
+    },
+  ])('groups $name', ({ photos, expected }) => {
+    expect(ids(groupDuplicates(photos, 6))).toEqual(expected);
+  });
+
+  it('uses the distance it is given', () => {
+    const photos = [photo('a', 0, '0000000000000000'), photo('b', 1, '00000000000003ff')];
+    expect(ids(groupDuplicates(photos, 9))).toEqual([]);
+    expect(ids(groupDuplicates(photos, 10))).toEqual([['a', 'b']]);
+  });
+
+  it('is cheap enough to run on a large collage', () => {
+    const random = createRandom(3);
+    const randomHash = () => Array.from({ length: 16 }, () => Math.floor(random() * 16).toString(16)).join('');
+    const photos = Array.from({ length: 2000 }, (_, i) => photo(`p${i}`, i % 60, randomHash()));
+
+    const started = performance.now();
+    groupDuplicates(photos, 6);
+    // Generous bound so slow CI machines do not flake; typical runs take well under 100ms
+    expect(performance.now() - started).toBeLessThan(2000);
+  });
+});
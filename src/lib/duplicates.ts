@@ -0,0 +1,94 @@
+// Spotting repeat uploads by comparing the perceptual hash stored with each photo
+import { HASH_WORDS, hashWords, popcount } from './screening/imageHash';
+
+// What happens to an upload that matches a photo already in the collage
+export type DuplicateMode = 'off' | 'group' | 'reject';
+
+export type DuplicateSettings = {
+  mode: DuplicateMode;
+  // Hashes at most this many bits apart count as the same picture
+  maxDistance: number;
+};
+
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateSettings = {
+  mode: 'group',
+  maxDistance: 6,
+};
+
+export const DUPLICATE_MODES: { value: DuplicateMode; label: string }[] = [
+  { value: 'group', label: 'Group and hold for review' },
+  { value: 'reject', label: 'Reject the upload' },
+  { value: 'off', label: 'Allow' },
+];
+
+export const DUPLICATE_DISTANCES: { value: number; label: string }[] = [
+  { value: 2, label: 'Exact copies only' },
+  { value: 6, label: 'Same shot, re-saved or resized' },
+  { value: 10, label: 'Bursts of nearly the same shot' },
+  { value: 14, label: 'Loose (may group different photos)' },
+];
+
+export const resolveDuplicateSettings = (settings?: Partial<DuplicateSettings>): DuplicateSettings => ({
+  mode: settings?.mode ?? DEFAULT_DUPLICATE_SETTINGS.mode,
+  maxDistance: settings?.maxDistance ?? DEFAULT_DUPLICATE_SETTINGS.maxDistance,
+});
+
+type HashedPhoto = {
+  id: string;
+  created_at: string;
+  phash?: string | null;
+  duplicate_of?: string | null;
+};
+
+// Sets of photos that look alike, each oldest first. Photos are linked when they were
+// grouped at upload or when their hashes are within maxDistance, so photos uploaded
+// before the check was switched on are found too. Compares every pair of hashed photos,
+// so only run it while the duplicates are actually on screen
+export const groupDuplicates = <T extends HashedPhoto>(photos: T[], maxDistance: number): T[][] => {
+  // Union-find over photo indexes
+  const parent = Int32Array.from(photos, (_, i) => i);
+  const root = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const link = (a: number, b: number) => {
+    parent[root(a)] = root(b);
+  };
+
+  // Parse each hash once; the pair loop below only does integer maths
+  const hashed = photos.flatMap((photo, i) => (photo.phash ? [i] : []));
+  const words = new Uint32Array(hashed.length * HASH_WORDS);
+  hashed.forEach((index, i) => words.set(hashWords(photos[index].phash!), i * HASH_WORDS));
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      let distance = 0;
+      for (let k = 0; k < HASH_WORDS && distance <= maxDistance; k++) {
+        distance += popcount(words[i * HASH_WORDS + k] ^ words[j * HASH_WORDS + k]);
+      }
+      if (distance <= maxDistance) link(hashed[i], hashed[j]);
+    }
+  }
+
+  const indexOf = new Map(photos.map((photo, i) => [photo.id, i]));
+  photos.forEach((photo, i) => {
+    const original = photo.duplicate_of ? indexOf.get(photo.duplicate_of) : undefined;
+    if (original !== undefined) link(i, original);
+  });
+
+  const groups = new Map<number, T[]>();
+  photos.forEach((photo, i) => {
+    const id = root(i);
+    const group = groups.get(id);
+    if (group) group.push(photo);
+    else groups.set(id, [photo]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => group.sort((a, b) => a.created_at.localeCompare(b.created_at)))
+    .sort((a, b) => b[b.length - 1].created_at.localeCompare(a[a.length - 1].created_at));
+};
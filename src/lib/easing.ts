@@ -0,0 +1,39 @@
+// Easing curves shared by scene transitions; all map 0..1 onto 0..1
+export type EasingName =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInOutCubic'
+  | 'easeInOutSine'
+  | 'easeOutBack';
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeInQuad: (t) => t * t,
+  easeOutQuad: (t) => 1 - (1 - t) * (1 - t),
+  easeInOutQuad: (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeInOutSine: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeOutBack: (t) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  },
+};
+
+export const EASING_OPTIONS: { value: EasingName; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'easeInQuad', label: 'Ease In' },
+  { value: 'easeOutQuad', label: 'Ease Out' },
+  { value: 'easeInOutQuad', label: 'Ease In-Out' },
+  { value: 'easeInOutCubic', label: 'Smooth (Cubic)' },
+  { value: 'easeInOutSine', label: 'Gentle (Sine)' },
+  { value: 'easeOutBack', label: 'Overshoot' },
+];
+
+export const ease = (name: string | undefined, t: number): number => {
+  const clamped = Math.min(Math.max(t, 0), 1);
+  const fn = EASINGS[name as EasingName] || EASINGS.easeInOutCubic;
+  return fn(clamped);
+};
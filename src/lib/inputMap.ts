@@ -0,0 +1,114 @@
+// Keyboard and gamepad bindings for the live viewer, for kiosks and stage use
+
+export type InputAction =
+  | 'orbitLeft'
+  | 'orbitRight'
+  | 'orbitUp'
+  | 'orbitDown'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'togglePause'
+  | 'nextPhoto'
+  | 'previousPhoto'
+  | 'toggleFullscreen'
+  | 'toggleHelp'
+  | 'resumePlaylist'
+  | `pattern${number}`;
+
+// Each action lists keys (KeyboardEvent.key, letters lower case, ' ' written as
+// 'Space') and gamepad buttons written as 'Pad<index>' in the standard mapping
+export type InputBindings = Partial<Record<InputAction, string[]>>;
+
+// Held actions move the camera every frame; the rest fire once per press
+export const CONTINUOUS_ACTIONS: InputAction[] = ['orbitLeft', 'orbitRight', 'orbitUp', 'orbitDown', 'zoomIn', 'zoomOut'];
+
+// Number keys pick patterns in the order the pattern menu lists them
+export const PATTERN_SHORTCUTS = 9;
+
+export const patternAction = (index: number): InputAction => `pattern${index + 1}`;
+
+export const DEFAULT_INPUT_BINDINGS: Record<string, string[]> = {
+  orbitLeft: ['ArrowLeft', 'Pad14'],
+  orbitRight: ['ArrowRight', 'Pad15'],
+  orbitUp: ['ArrowUp', 'Pad12'],
+  orbitDown: ['ArrowDown', 'Pad13'],
+  zoomIn: ['+', '=', 'Pad7'],
+  zoomOut: ['-', 'Pad6'],
+  togglePause: ['Space', 'Pad0'],
+  nextPhoto: ['n', 'Pad5'],
+  previousPhoto: ['p', 'Pad4'],
+  toggleFullscreen: ['f', 'Pad8'],
+  toggleHelp: ['?', 'h', 'Pad9'],
+  resumePlaylist: ['0', 'Pad3'],
+  ...Object.fromEntries(
+    Array.from({ length: PATTERN_SHORTCUTS }, (_, i) => [patternAction(i), [String(i + 1)]])
+  ),
+};
+
+export const INPUT_ACTION_LABELS: { action: InputAction; label: string }[] = [
+  { action: 'orbitLeft', label: 'Orbit left' },
+  { action: 'orbitRight', label: 'Orbit right' },
+  { action: 'orbitUp', label: 'Orbit up' },
+  { action: 'orbitDown', label: 'Orbit down' },
+  { action: 'zoomIn', label: 'Zoom in' },
+  { action: 'zoomOut', label: 'Zoom out' },
+  { action: 'togglePause', label: 'Pause / resume animation' },
+  { action: 'nextPhoto', label: 'Next photo' },
+  { action: 'previousPhoto', label: 'Previous photo' },
+  { action: 'toggleFullscreen', label: 'Fullscreen' },
+  { action: 'toggleHelp', label: 'Show / hide this help' },
+  { action: 'resumePlaylist', label: 'Back to the playlist after picking a pattern' },
+];
+
+// The collage's overrides on top of the defaults
+export const resolveBindings = (overrides?: InputBindings): Record<string, string[]> => ({
+  ...DEFAULT_INPUT_BINDINGS,
+  ...overrides,
+});
+
+// Name used in bindings for a key press
+export const keyName = (event: KeyboardEvent): string =>
+  event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+// Reverse lookup, so each key press is a single map access
+export const actionsByInput = (bindings: Record<string, string[]>): Map<string, InputAction[]> => {
+  const lookup = new Map<string, InputAction[]>();
+  for (const [action, inputs] of Object.entries(bindings)) {
+    for (const input of inputs) {
+      const name = input.length === 1 ? input.toLowerCase() : input;
+      lookup.set(name, [...(lookup.get(name) || []), action as InputAction]);
+    }
+  }
+  return lookup;
+};
+
+// Shared with the scene's camera controller; each axis is -1..1 and is read every frame
+export type CameraInput = {
+  orbitX: number;
+  orbitY: number;
+  zoom: number;
+};
+
+export const createCameraInput = (): CameraInput => ({ orbitX: 0, orbitY: 0, zoom: 0 });
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Space: 'Space',
+  Escape: 'Esc',
+};
+
+// Button names in the standard gamepad mapping (Xbox layout)
+const PAD_LABELS = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3',
+  'D-pad ↑', 'D-pad ↓', 'D-pad ←', 'D-pad →', 'Home',
+];
+
+// Human-readable name for a binding, for the help overlay
+export const inputLabel = (input: string): string => {
+  const pad = /^Pad(\d+)$/.exec(input);
+  if (pad) return `🎮 ${PAD_LABELS[Number(pad[1])] ?? `Button ${pad[1]}`}`;
+  return KEY_LABELS[input] ?? (input.length === 1 ? input.toUpperCase() : input);
+};
@@ -0,0 +1,35 @@
+// Small seeded PRNG helpers so layouts are reproducible across screens
+
+// Mixes any number of integers (or strings) into a 32-bit seed
+export const hashSeed = (...parts: (number | string)[]): number => {
+  let hash = 0x811c9dc5;
+  for (const part of parts) {
+    const text = String(part);
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    // Separator so ('1', '23') and ('12', '3') hash differently
+    hash ^= 0xff;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: fast, decent quality, and identical on every JS engine
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// One-off value in [0, 1) for a given set of keys, without keeping generator state
+export const randomFor = (...parts: (number | string)[]): number =>
+  createRandom(hashSeed(...parts))();
+
+export const newSeed = (): number => Math.floor(Math.random() * 2147483647) + 1;
@@ -0,0 +1,42 @@
+import { differenceHash } from './imageHash';
+import { MODEL_INPUT_SIZE } from './nudityModel';
+import { type ScreeningFrame } from './types';
+
+// Longest side of the sample the rules look at; plenty for colour and layout checks
+const SAMPLE_SIZE = 64;
+
+export const lumaOf = (rgba: Uint8ClampedArray): Float32Array => {
+  const luma = new Float32Array(rgba.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return luma;
+};
+
+export const createFrame = (rgba: Uint8ClampedArray, width: number, height: number): ScreeningFrame => {
+  const luma = lumaOf(rgba);
+  return { width, height, rgba, luma, hash: differenceHash(luma, width, height) };
+};
+
+const drawScaled = (bitmap: ImageBitmap, size: number) => {
+  const scale = size / Math.max(bitmap.width, bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D context unavailable');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return { canvas, context };
+};
+
+// Decodes an image file in the browser and samples it down; no network involved
+export const readFrame = async (file: Blob): Promise<ScreeningFrame> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const { canvas, context } = drawScaled(bitmap, SAMPLE_SIZE);
+    const frame = createFrame(context.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height);
+    return { ...frame, image: drawScaled(bitmap, MODEL_INPUT_SIZE).canvas };
+  } finally {
+    bitmap.close();
+  }
+};
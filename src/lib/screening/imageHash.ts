@@ -0,0 +1,69 @@
+// 64-bit difference hash: each bit says whether a pixel is brighter than its right-hand
+// neighbour on a 9x8 thumbnail. Resizing, recompression and small edits barely change it
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+
+// Box-averages a brightness grid down to cols x rows
+const shrink = (luma: Float32Array, width: number, height: number, cols: number, rows: number): Float32Array => {
+  const out = new Float32Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    const y0 = Math.floor((row * height) / rows);
+    const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * height) / rows));
+    for (let col = 0; col < cols; col++) {
+      const x0 = Math.floor((col * width) / cols);
+      const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * width) / cols));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += luma[y * width + x];
+      }
+      out[row * cols + col] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+};
+
+// 16 hex characters
+export const differenceHash = (luma: Float32Array, width: number, height: number): string => {
+  const grid = shrink(luma, width, height, HASH_COLUMNS, HASH_ROWS);
+  let hex = '';
+  for (let row = 0; row < HASH_ROWS; row++) {
+    let byte = 0;
+    for (let col = 0; col < HASH_COLUMNS - 1; col++) {
+      const left = grid[row * HASH_COLUMNS + col];
+      const right = grid[row * HASH_COLUMNS + col + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+export const HASH_BITS = (HASH_COLUMNS - 1) * HASH_ROWS;
+
+// 32-bit words per hash
+export const HASH_WORDS = HASH_BITS / 32;
+
+// Set bits in a 32-bit integer
+export const popcount = (value: number): number => {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+};
+
+// A hash as 32-bit words, so many comparisons don't re-parse the hex each time
+export const hashWords = (hash: string): Uint32Array => {
+  const words = new Uint32Array(HASH_WORDS);
+  for (let i = 0; i < HASH_WORDS; i++) {
+    words[i] = parseInt(hash.slice(i * 8, i * 8 + 8), 16);
+  }
+  return words;
+};
+
+// Number of differing bits between two hashes
+export const hammingDistance = (a: string, b: string): number => {
+  const wordsA = hashWords(a);
+  const wordsB = hashWords(b);
+  let distance = 0;
+  for (let i = 0; i < HASH_WORDS; i++) distance += popcount(wordsA[i] ^ wordsB[i]);
+  return distance;
+};
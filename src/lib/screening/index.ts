@@ -0,0 +1,50 @@
+// Automatic screening of uploads, run in the browser before a photo is saved. Photos
+// that trip a rule are stored as pending so a host reviews them before they go live
+import { ScreeningRegistry } from './registry';
+import { readFrame } from './frame';
+import { resolveScreeningSettings } from './settings';
+import { type ScreeningFlag, type ScreeningSettings } from './types';
+import './rules';
+
+export { ScreeningRegistry };
+export { differenceHash, hammingDistance, HASH_BITS } from './imageHash';
+export { DEFAULT_SCREENING_SETTINGS, resolveScreeningSettings } from './settings';
+export type { ScreeningFlag, ScreeningRule, ScreeningSettings, ScreeningRuleSettings } from './types';
+
+export interface ScreeningResult {
+  // Rules the photo tripped; an empty list means it can go live
+  flags: ScreeningFlag[];
+  // Perceptual hash of the photo, stored with it for duplicate detection
+  hash: string;
+}
+
+// Hashes the photo and runs the enabled rules against it
+export const screenPhoto = async (
+  file: Blob,
+  settings: Partial<ScreeningSettings> | undefined
+): Promise<ScreeningResult> => {
+  const resolved = resolveScreeningSettings(settings);
+  const frame = await readFrame(file);
+  if (!resolved.enabled) return { flags: [], hash: frame.hash };
+
+  const flags: ScreeningFlag[] = [];
+  for (const rule of ScreeningRegistry.list()) {
+    const ruleSettings = resolved.rules[rule.id];
+    if (!ruleSettings.enabled) continue;
+
+    // One broken rule (e.g. a model that won't load) shouldn't stop the others
+    try {
+      const score = await rule.score(frame);
+      if (score >= ruleSettings.threshold) {
+        flags.push({ rule: rule.id, score: Math.round(score * 100) / 100 });
+      }
+    } catch (error) {
+      console.warn(`⚠️ Screening rule "${rule.id}" failed, skipping it:`, error);
+    }
+  }
+
+  if (flags.length > 0) {
+    console.log('🔍 SCREENING: Holding photo for review:', flags);
+  }
+  return { flags, hash: frame.hash };
+};
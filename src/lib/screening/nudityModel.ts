@@ -0,0 +1,44 @@
+// Explicit-content classifier bundled with the app: nsfwjs's MobileNetV2 (about 3.5 MB of
+// weights, shipped in the npm package and run with TensorFlow.js on the device). It is
+// loaded on first use, so collages that don't screen uploads never download it
+import type { NSFWJS, PredictionType } from 'nsfwjs/core';
+
+// Side of the square image the model looks at
+export const MODEL_INPUT_SIZE = 224;
+
+// Classes that count against a photo; 'Sexy' (swimwear, low necklines) is left out so
+// ordinary party photos aren't held
+const EXPLICIT_CLASSES: PredictionType['className'][] = ['Porn', 'Hentai'];
+
+let modelPromise: Promise<NSFWJS> | null = null;
+
+const loadModel = (): Promise<NSFWJS> => {
+  if (!modelPromise) {
+    modelPromise = (async () => {
+      const [{ load }, { MobileNetV2Model }] = await Promise.all([
+        import('nsfwjs/core'),
+        import('nsfwjs/models/mobilenet_v2'),
+      ]);
+      const model = await load('MobileNetV2', { modelDefinitions: [MobileNetV2Model] });
+      console.log('🔍 SCREENING: Nudity model loaded');
+      return model;
+    })();
+    // Let a later upload retry if the model couldn't load, e.g. no WebGL and no CPU backend
+    modelPromise.catch(() => {
+      modelPromise = null;
+    });
+  }
+  return modelPromise;
+};
+
+// Probability the model puts on the explicit classes, 0-1
+export const explicitScore = (predictions: PredictionType[]): number =>
+  Math.min(1, predictions
+    .filter(prediction => EXPLICIT_CLASSES.includes(prediction.className))
+    .reduce((sum, prediction) => sum + prediction.probability, 0));
+
+export const classifyExplicit = async (image: HTMLCanvasElement): Promise<number> => {
+  const model = await loadModel();
+  // All five classes, so the explicit ones are always in the list
+  return explicitScore(await model.classify(image, 5));
+};
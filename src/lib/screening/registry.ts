@@ -0,0 +1,21 @@
+import { type ScreeningRule } from './types';
+
+const rules = new Map<string, ScreeningRule>();
+
+// Rules register themselves on import, the same way patterns do
+export class ScreeningRegistry {
+  static register(rule: ScreeningRule) {
+    if (rules.has(rule.id)) {
+      console.warn(`🔍 SCREENING: Replacing existing rule "${rule.id}"`);
+    }
+    rules.set(rule.id, rule);
+  }
+
+  static get(id: string): ScreeningRule | undefined {
+    return rules.get(id);
+  }
+
+  static list(): ScreeningRule[] {
+    return Array.from(rules.values());
+  }
+}
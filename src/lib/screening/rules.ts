@@ -0,0 +1,34 @@
+import { ScreeningRegistry } from './registry';
+import { classifyExplicit } from './nudityModel';
+
+// Explicit content, scored by the bundled classifier on the larger copy of the photo
+ScreeningRegistry.register({
+  id: 'nudity',
+  label: 'Nudity',
+  description: 'Holds photos an on-device image classifier rates as explicit',
+  defaultThreshold: 0.7,
+  enabledByDefault: true,
+  score: ({ image }) => (image ? classifyExplicit(image) : 0),
+});
+
+// Brightness spread below which a frame counts as blank
+const BLANK_CONTRAST = 32;
+
+// Black, white or single-colour frames, e.g. a covered lens or a failed capture
+ScreeningRegistry.register({
+  id: 'blank',
+  label: 'Blank frames',
+  description: 'Holds photos with almost no detail, like black or covered-lens shots',
+  defaultThreshold: 0.8,
+  enabledByDefault: true,
+  score: ({ luma }) => {
+    if (luma.length === 0) return 1;
+    let mean = 0;
+    for (let i = 0; i < luma.length; i++) mean += luma[i];
+    mean /= luma.length;
+    let variance = 0;
+    for (let i = 0; i < luma.length; i++) variance += (luma[i] - mean) ** 2;
+    const deviation = Math.sqrt(variance / luma.length);
+    return Math.max(0, 1 - deviation / BLANK_CONTRAST);
+  },
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { ScreeningRegistry, differenceHash, hammingDistance, HASH_BITS } from '.';
+import { createFrame } from './frame';
+import { explicitScore } from './nudityModel';
+import { popcount } from './imageHash';
+import { createRandom } from '../random';
+
+const SIZE = 32;
+
+// Builds a SIZE x SIZE frame from a colour function
+const makeFrame = (color: (x: number, y: number) => [number, number, number]) => {
+  const rgba = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const [r, g, b] = color(x, y);
+      rgba.set([r, g, b, 255], (y * SIZE + x) * 4);
+    }
+  }
+  return createFrame(rgba, SIZE, SIZE);
+};
+
+const gray = (value: number): [number, number, number] => [value, value, value];
+
+// Bit-by-bit reference for the word-at-a-time hammingDistance
+const naiveDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (let bit = 0; bit < 4; bit++) distance += (diff >> bit) & 1;
+  }
+  return distance;
+};
+
+const score = (ruleId: string, frame: ReturnType<typeof makeFrame>) =>
+  ScreeningRegistry.get(ruleId)!.score(frame);
+
+describe('screening', () => {
+  describe('differenceHash', () => {
+    it.each([
+      { name: 'flat frame', color: () => gray(128), expected: '0000000000000000' },
+      { name: 'darkening to the right', color: (x: number) => gray(255 - x * 8), expected: 'ffffffffffffffff' },
+      { name: 'brightening to the right', color: (x: number) => gray(x * 8), expected: '0000000000000000' },
+      { name: 'darkening in the top half only', color: (x: number, y: number) => gray(y < SIZE / 2 ? 255 - x * 8 : 128), expected: 'ffffffff00000000' },
+    ])('hashes a $name', ({ color, expected }) => {
+      const frame = makeFrame(color);
+      expect(differenceHash(frame.luma, frame.width, frame.height)).toBe(expected);
+      expect(frame.hash).toBe(expected);
+    });
+
+    it('barely changes when the photo is brightened', () => {
+      const random = createRandom(7);
+      const noise = Array.from({ length: SIZE * SIZE }, () => random() * 200);
+      const original = makeFrame((x, y) => gray(noise[y * SIZE + x]));
+      const brighter = makeFrame((x, y) => gray(noise[y * SIZE + x] + 40));
+      expect(hammingDistance(original.hash, brighter.hash)).toBeLessThanOrEqual(2);
+    });
+  });
+
+  describe('hammingDistance', () => {
+    it.each([
+      ['0000000000000000', '0000000000000000', 0],
+      ['ffffffffffffffff', '0000000000000000', 64],
+      ['8000000000000001', '0000000000000000', 2],
+      ['00000000ffffffff', 'ffffffff00000000', 64],
+      ['0f0f0f0f0f0f0f0f', 'f0f0f0f0f0f0f0f0', 64],
+      ['0123456789abcdef', '0123456789abcdee', 1],
+    ])('%s vs %s is %i bits', (a, b, expected) => {
+      expect(hammingDistance(a, b)).toBe(expected);
+      expect(hammingDistance(b, a)).toBe(expected);
+    });
+
+    it('matches a bit-by-bit count for random hashes', () => {
+      const random = createRandom(42);
+      const randomHash = () =>
+        Array.from({ length: HASH_BITS / 4 }, () => Math.floor(random() * 16).toString(16)).join('');
+      for (let i = 0; i < 500; i++) {
+        const a = randomHash();
+        const b = randomHash();
+        expect(hammingDistance(a, b)).toBe(naiveDistance(a, b));
+      }
+    });
+
+    it.each([
+      [0, 0],
+      [1, 1],
+      [0xffffffff, 32],
+      [0x80000000, 1],
+      [0xaaaaaaaa, 16],
+    ])('popcount(%i) is %i', (value, expected) => {
+      expect(popcount(value)).toBe(expected);
+    });
+  });
+
+  describe('blank rule', () => {
+    it.each([
+      { name: 'black frame', color: () => gray(0), min: 1, max: 1 },
+      { name: 'white frame', color: () => gray(255), min: 1, max: 1 },
+      { name: 'faint gradient', color: (x: number) => gray(100 + x), min: 0.6, max: 0.8 },
+      { name: 'checkerboard', color: (x: number, y: number) => gray((x + y) % 2 ? 255 : 0), min: 0, max: 0 },
+    ])('scores a $name', ({ color, min, max }) => {
+      const value = score('blank', makeFrame(color)) as number;
+      expect(value).toBeGreaterThanOrEqual(min);
+      expect(value).toBeLessThanOrEqual(max);
+    });
+  });
+
+  describe('nudity rule', () => {
+    it('scores 0 when there is no image for the model', async () => {
+      expect(await score('nudity', makeFrame(() => gray(128)))).toBe(0);
+    });
+
+    it.each([
+      { name: 'neutral photo', porn: 0.02, hentai: 0.01, sexy: 0.1, neutral: 0.85, expected: 0.03 },
+      { name: 'swimwear', porn: 0.05, hentai: 0, sexy: 0.9, neutral: 0.05, expected: 0.05 },
+      { name: 'explicit photo', porn: 0.8, hentai: 0.15, sexy: 0.05, neutral: 0, expected: 0.95 },
+    ])('counts only explicit classes for a $name', ({ porn, hentai, sexy, neutral, expected }) => {
+      expect(explicitScore([
+        { className: 'Porn', probability: porn },
+        { className: 'Hentai', probability: hentai },
+        { className: 'Sexy', probability: sexy },
+        { className: 'Neutral', probability: neutral },
+        { className: 'Drawing', probability: 0 },
+      ])).toBeCloseTo(expected);
+    });
+  });
+});
@@ -0,0 +1,23 @@
+// Per-collage screening settings. Kept apart from the rules so the scene settings (which
+// the pattern worker also loads) don't pull in the bundled model
+import { ScreeningRegistry } from './registry';
+import { type ScreeningSettings } from './types';
+
+export const DEFAULT_SCREENING_SETTINGS: ScreeningSettings = {
+  enabled: false,
+  rules: {},
+};
+
+// Fills in rules the collage hasn't configured (including ones added since) with their defaults
+export const resolveScreeningSettings = (settings?: Partial<ScreeningSettings>): ScreeningSettings => ({
+  enabled: settings?.enabled ?? DEFAULT_SCREENING_SETTINGS.enabled,
+  rules: Object.fromEntries(
+    ScreeningRegistry.list().map(rule => [
+      rule.id,
+      {
+        enabled: settings?.rules?.[rule.id]?.enabled ?? rule.enabledByDefault,
+        threshold: settings?.rules?.[rule.id]?.threshold ?? rule.defaultThreshold,
+      },
+    ])
+  ),
+});
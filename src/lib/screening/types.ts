@@ -0,0 +1,40 @@
+// A photo scaled down to a small sample for the screening rules
+export type ScreeningFrame = {
+  width: number;
+  height: number;
+  // RGBA, row by row
+  rgba: Uint8ClampedArray;
+  // Perceived brightness per pixel, 0-255
+  luma: Float32Array;
+  // Difference hash, stored with the photo for duplicate detection (see imageHash.ts)
+  hash: string;
+  // Larger copy of the photo for rules that run a model; absent outside the browser
+  image?: HTMLCanvasElement;
+};
+
+// Stored on the photo row so moderators can see why it was held
+export type ScreeningFlag = {
+  rule: string;
+  score: number;
+};
+
+export type ScreeningRuleSettings = {
+  enabled: boolean;
+  // Photos scoring at or above this are held for review
+  threshold: number;
+};
+
+export type ScreeningSettings = {
+  enabled: boolean;
+  rules: Record<string, ScreeningRuleSettings>;
+};
+
+export interface ScreeningRule {
+  id: string;
+  label: string;
+  description: string;
+  defaultThreshold: number;
+  enabledByDefault: boolean;
+  // 0 (fine) to 1 (almost certainly a problem)
+  score: (frame: ScreeningFrame) => number | Promise<number>;
+}
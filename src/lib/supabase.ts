@@ -40,4 +40,41 @@ export const getFileUrl = (bucket: string, path: string): string => {
   if (!supabaseUrl) return '';
   const baseUrl = `${supabaseUrl}/storage/v1/object/public/${bucket}/${path}`;
   return normalizeFileExtension(baseUrl);
-};
\ No newline at end of file
+};
+
+// Resized copy of a public storage image via Supabase image transformations.
+// Non-storage URLs are returned unchanged.
+export const getResizedImageUrl = (url: string, width: number, quality = 75): string => {
+  if (!url) return '';
+  const objectPath = '/storage/v1/object/public/';
+  if (!url.includes(objectPath)) return url;
+  const urlObj = new URL(url.replace(objectPath, '/storage/v1/render/image/public/'));
+  urlObj.searchParams.set('width', String(width));
+  urlObj.searchParams.set('quality', String(quality));
+  urlObj.searchParams.set('resize', 'contain');
+  return urlObj.toString();
+};
+
+// Photos whose resized copy failed while the original loaded, before resized images count
+// as unavailable (image transformations not enabled on the project)
+const RESIZE_FAILURES_BEFORE_GIVING_UP = 3;
+
+// Whether resized images work, shared by everything that loads photos. One broken photo
+// or a network blip only sends that photo to its original; resizing is given up after
+// several different photos fail, and never once a resized image has loaded
+export const resizeSupport = {
+  confirmed: false,
+  failedUrls: new Set<string>(),
+  get available(): boolean {
+    return this.confirmed || this.failedUrls.size < RESIZE_FAILURES_BEFORE_GIVING_UP;
+  },
+  resizedLoaded() {
+    this.confirmed = true;
+  },
+  // The resized copy of url failed but the original loaded
+  resizedFailed(url: string) {
+    if (this.confirmed || this.failedUrls.has(url)) return;
+    this.failedUrls.add(url);
+    if (!this.available) console.warn('🖼️ Resized images unavailable, loading originals from now on');
+  },
+};
@@ -1,8 +1,8 @@
 // src/pages/CollageEditorPage.tsx - WITH REAL-TIME UPDATES
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { ChevronLeft, Settings, Image, Shield } from 'lucide-react';
-import { useCollageStore } from '../store/collageStore';
+import { useCollageStore, isPhotoLive } from '../store/collageStore';
 import { useSceneStore } from '../store/sceneStore';
 import { ErrorBoundary } from 'react-error-boundary';
 import Layout from '../components/layout/Layout';
@@ -10,6 +10,7 @@ import SceneSettings from '../components/collage/SceneSettings';
 import CollageScene from '../components/three/CollageScene';
 import PhotoUploader from '../components/collage/PhotoUploader';
 import CollagePhotos from '../components/collage/CollagePhotos';
+import { createCameraProbe } from '../lib/cameraPath';
 
 type Tab = 'settings' | 'photos';
 
@@ -57,9 +58,13 @@ const CollageEditorPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('settings');
   const [saving, setSaving] = useState(false);
   const saveTimeoutRef = useRef<NodeJS.Timeout>();
+  // Shared with the scene so the settings panel can record camera keyframes
+  const [cameraProbe] = useState(createCameraProbe);
 
-  // SAFETY: Ensure photos is always an array
-  const safePhotos = Array.isArray(photos) ? photos : [];
+  // SAFETY: Ensure photos is always an array; the trash is only shown on the moderation page
+  const safePhotos = Array.isArray(photos) ? photos.filter(p => !p.deleted_at) : [];
+  // The preview shows what the screens show, so photos awaiting approval stay out
+  const livePhotos = useMemo(() => (Array.isArray(photos) ? photos.filter(isPhotoLive) : []), [photos]);
 
   // DEBUG: Log photos changes in editor
   useEffect(() => {
@@ -184,9 +189,10 @@ const CollageEditorPage: React.FC = () => {
             resetKeys={[currentCollage.id, settings, photos.length]}
           >
             <CollageScene 
-              photos={safePhotos}
+              photos={livePhotos}
               settings={settings}
               onSettingsChange={handleSettingsChange}
+              cameraProbe={cameraProbe}
             />
           </ErrorBoundary>
 
@@ -308,6 +314,7 @@ const CollageEditorPage: React.FC = () => {
                 <SceneSettings
                   settings={settings}
                   onSettingsChange={handleSettingsChange}
+                  cameraProbe={cameraProbe}
                 />
               </div>
             ) : (
@@ -348,13 +355,18 @@ const CollageEditorPage: React.FC = () => {
                     ) : (
                       <div className="grid grid-cols-2 gap-2">
                         {safePhotos.map((photo) => (
-                          <div key={photo.id} className="aspect-square rounded overflow-hidden bg-gray-800">
+                          <div key={photo.id} className="relative aspect-square rounded overflow-hidden bg-gray-800">
                             <img 
                               src={photo.url} 
                               alt="Photo"
-                              className="w-full h-full object-cover"
+                              className={`w-full h-full object-cover ${isPhotoLive(photo) ? '' : 'opacity-40'}`}
                               loading="lazy"
                             />
+                            {!isPhotoLive(photo) && (
+                              <span className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-black/70 rounded text-xs text-gray-200 capitalize">
+                                {photo.status}
+                              </span>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -1,9 +1,73 @@
 // src/pages/CollageModerationPage.tsx - ENHANCED VERSION WITH BETTER DELETION
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { ChevronLeft, Shield, RefreshCw, Trash2, Eye, AlertCircle } from 'lucide-react';
-import { useCollageStore } from '../store/collageStore';
+import { ChevronLeft, Shield, RefreshCw, Trash2, Eye, EyeOff, AlertCircle, Star, Pin, PinOff, Crosshair, Box, Check, X, Inbox, SkipForward, RotateCcw, Download, Camera, Upload, ScanSearch, Copy } from 'lucide-react';
+import {
+  useCollageStore,
+  isPhotoLive,
+  trashExpiry,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  type Photo,
+  type PhotoUpdate,
+  type PhotoStatus,
+  type PhotoSource,
+  type BulkProgress,
+} from '../store/collageStore';
+import { defaultSettings, type SceneSettings } from '../store/sceneStore';
+import { findCentreSlot } from '../components/three/patterns/PatternFactory';
 import Layout from '../components/layout/Layout';
+import CollageScene from '../components/three/CollageScene';
+import PhotoDetailOverlay from '../components/collage/PhotoDetailOverlay';
+import UndoToast from '../components/collage/UndoToast';
+import { downloadPhotos } from '../lib/download';
+import ScreeningSettings from '../components/collage/ScreeningSettings';
+import { ScreeningRegistry, type ScreeningFlag, type ScreeningSettings as ScreeningSettingsValue } from '../lib/screening';
+import DuplicateSettings from '../components/collage/DuplicateSettings';
+import { groupDuplicates, resolveDuplicateSettings, type DuplicateSettings as DuplicateSettingsValue } from '../lib/duplicates';
+
+type StatusFilter = 'all' | PhotoStatus | 'duplicates' | 'trash';
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'hidden', label: 'Hidden' },
+  { value: 'duplicates', label: 'Possible duplicates' },
+  { value: 'trash', label: 'Trash' },
+];
+
+const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90];
+
+// Upload time windows, in minutes back from now (0 = any time)
+const TIME_WINDOWS = [
+  { minutes: 0, label: 'Any time' },
+  { minutes: 15, label: 'Last 15 minutes' },
+  { minutes: 60, label: 'Last hour' },
+  { minutes: 24 * 60, label: 'Last 24 hours' },
+];
+
+const SOURCE_FILTERS: { value: 'all' | PhotoSource; label: string }[] = [
+  { value: 'all', label: 'All sources' },
+  { value: 'photobooth', label: 'Photobooth' },
+  { value: 'uploader', label: 'Uploader' },
+];
+
+type BulkTask = { label: string; done: number; total: number };
+
+const STATUS_BADGES: Record<PhotoStatus, string> = {
+  pending: 'bg-yellow-500 text-black',
+  approved: 'bg-green-600 text-white',
+  rejected: 'bg-red-600 text-white',
+  hidden: 'bg-gray-600 text-white',
+};
+
+// Older rows have no status and count as approved
+const statusOf = (photo: { status?: PhotoStatus }): PhotoStatus => photo.status || 'approved';
+
+// Why the upload screening held a photo, e.g. "Blank frames (0.97)"
+const describeFlags = (flags?: ScreeningFlag[] | null): string =>
+  (flags || []).map(flag => `${ScreeningRegistry.get(flag.rule)?.label ?? flag.rule} (${flag.score.toFixed(2)})`).join(', ');
 
 const CollageModerationPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -12,6 +76,14 @@ const CollageModerationPage: React.FC = () => {
     photos, 
     fetchCollageById, 
     deletePhoto, 
+    deletePhotos,
+    restorePhotos,
+    purgePhoto,
+    purgePhotos,
+    purgeExpiredPhotos,
+    updatePhoto,
+    updatePhotos,
+    updateCollageSettings,
     loading, 
     error, 
     refreshPhotos,
@@ -21,12 +93,91 @@ const CollageModerationPage: React.FC = () => {
   } = useCollageStore();
   
   // SAFETY: Ensure photos is always an array
-  const safePhotos = Array.isArray(photos) ? photos : [];
+  const safePhotos = useMemo(() => (Array.isArray(photos) ? photos : []), [photos]);
   
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [deletingPhotos, setDeletingPhotos] = useState<Set<string>>(new Set());
   const [selectedPhoto, setSelectedPhoto] = useState<any>(null);
+  const [slotInput, setSlotInput] = useState('');
+  const [showWall, setShowWall] = useState(false);
+  const [inspectedPhotoId, setInspectedPhotoId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [queueMode, setQueueMode] = useState(false);
+  const [queueIndex, setQueueIndex] = useState(0);
+  // Photos deleted since the undo toast appeared
+  const [undoPhotoIds, setUndoPhotoIds] = useState<string[]>([]);
+  const [timeWindow, setTimeWindow] = useState(0);
+  const [sourceFilter, setSourceFilter] = useState<'all' | PhotoSource>('all');
+  // Multi-select; the anchor is where shift-click ranges start
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [bulkTask, setBulkTask] = useState<BulkTask | null>(null);
+
+  // Full scene settings for this collage, so slot numbers match what the screens show
+  const sceneSettings = useMemo<SceneSettings>(
+    () => ({ ...defaultSettings, ...currentCollage?.settings }),
+    [currentCollage?.settings]
+  );
+  const slotCount = sceneSettings.photoCount || 50;
+  const retentionDays = sceneSettings.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS;
+
+  // The 3D wall shows what the screens show
+  const livePhotos = useMemo(() => safePhotos.filter(isPhotoLive), [safePhotos]);
+  const activePhotos = useMemo(() => safePhotos.filter(p => !p.deleted_at), [safePhotos]);
+  const trashedPhotos = useMemo(
+    () => safePhotos
+      .filter(p => p.deleted_at)
+      .sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || '')),
+    [safePhotos]
+  );
+
+  // Photos that look alike, whether grouped at upload or uploaded before the check was on.
+  // Comparing every pair is expensive, so it only runs while the duplicates tab is open
+  const showingDuplicates = statusFilter === 'duplicates';
+  const duplicateDistance = resolveDuplicateSettings(sceneSettings.duplicates).maxDistance;
+  const duplicateGroups = useMemo(
+    () => (showingDuplicates ? groupDuplicates(activePhotos, duplicateDistance) : []),
+    [showingDuplicates, activePhotos, duplicateDistance]
+  );
+  const since = timeWindow > 0 ? new Date(Date.now() - timeWindow * 60 * 1000).toISOString() : null;
+  const matchesFilters = (photo: Photo) =>
+    (!since || photo.created_at >= since) &&
+    (sourceFilter === 'all' || photo.source === sourceFilter);
+
+  const photosFor = (filter: StatusFilter): Photo[] => {
+    if (filter === 'duplicates') return duplicateGroups.flat().filter(matchesFilters);
+    const pool = (filter === 'trash' ? trashedPhotos : activePhotos).filter(matchesFilters);
+    if (filter === 'trash' || filter === 'all') return pool;
+    return pool.filter(p => statusOf(p) === filter);
+  };
+  const filteredPhotos = photosFor(statusFilter);
+  // One grid of cards, or one per group on the duplicates tab
+  const photoSections: { key: string; group?: Photo[]; photos: Photo[] }[] = showingDuplicates && filteredPhotos.length > 0
+    ? duplicateGroups
+      .map(group => ({ key: group[0].id, group, photos: group.filter(matchesFilters) }))
+      .filter(section => section.photos.length > 0)
+    : [{ key: statusFilter, photos: filteredPhotos }];
+
+  // Bulk actions only touch selected photos that are still on screen
+  const selectedPhotos = filteredPhotos.filter(p => selectedIds.has(p.id));
+  const allVisibleSelected = filteredPhotos.length > 0 && selectedPhotos.length === filteredPhotos.length;
+
+  // Pending photos, oldest first, so nobody waits longest
+  const queue = useMemo(
+    () => activePhotos
+      .filter(p => statusOf(p) === 'pending')
+      .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    [activePhotos]
+  );
+  // Reviewed photos drop out of the queue, so the index now points at the next one
+  const queuePhoto = queue.length > 0 ? queue[Math.min(queueIndex, queue.length - 1)] : null;
+
+  // A new filter shows different photos, so start a new selection
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setSelectionAnchor(null);
+  }, [statusFilter, timeWindow, sourceFilter]);
 
   // DEBUG: Log photos changes in moderation
   useEffect(() => {
@@ -48,6 +199,18 @@ const CollageModerationPage: React.FC = () => {
     };
   }, [id, fetchCollageById, cleanupRealtimeSubscription]);
 
+  // The hourly purge-trash job empties every collage's trash; this also catches up
+  // straight away when a host opens the collage
+  useEffect(() => {
+    if (!currentCollage?.id) return;
+
+    purgeExpiredPhotos(currentCollage.id, retentionDays)
+      .then(count => {
+        if (count > 0) console.log(`🗑️ MODERATION: Purged ${count} expired photos from trash`);
+      })
+      .catch(error => console.error('❌ MODERATION: Trash purge failed:', error));
+  }, [currentCollage?.id, retentionDays, purgeExpiredPhotos]);
+
   const handleRefresh = async () => {
     if (!currentCollage?.id) return;
     
@@ -65,18 +228,17 @@ const CollageModerationPage: React.FC = () => {
     }
   };
 
+  // Deletes go to the trash straight away; the undo toast replaces a confirmation prompt
   const handleDeletePhoto = async (photoId: string) => {
     if (deletingPhotos.has(photoId)) return;
-    
-    const confirmed = window.confirm('Delete this photo? It will be removed from all views immediately.');
-    if (!confirmed) return;
 
     setDeletingPhotos(prev => new Set(prev).add(photoId));
     
     try {
-      console.log('🗑️ MODERATION: Deleting photo:', photoId);
+      console.log('🗑️ MODERATION: Moving photo to trash:', photoId);
       await deletePhoto(photoId);
-      console.log('✅ MODERATION: Photo deleted successfully');
+      console.log('✅ MODERATION: Photo moved to trash');
+      setUndoPhotoIds(prev => [...prev, photoId]);
       
       // Close modal if deleted photo was selected
       if (selectedPhoto?.id === photoId) {
@@ -97,14 +259,280 @@ const CollageModerationPage: React.FC = () => {
     }
   };
 
+  // Restores from the photo cards and the undo toast; bulk restores go through runBulk
+  const handleRestorePhotos = async (photoIds: string[]) => {
+    try {
+      await restorePhotos(photoIds);
+      console.log('♻️ MODERATION: Restored photos:', photoIds);
+    } catch (error: any) {
+      console.error('❌ MODERATION: Restore failed:', error);
+      // Unique index on (collage_id, pinned_slot) for photos outside the trash
+      if (error.code === '23505') {
+        alert('Another photo is pinned to this photo\'s slot. Unpin it first.');
+      } else {
+        alert(`Failed to restore photo: ${error.message}`);
+      }
+    }
+  };
+
+  const handleUndoDelete = () => {
+    handleRestorePhotos(undoPhotoIds);
+    setUndoPhotoIds([]);
+  };
+  const dismissUndo = useCallback(() => setUndoPhotoIds([]), []);
+
+  const handlePurgePhoto = async (photoId: string) => {
+    if (!window.confirm('Permanently delete this photo? This cannot be undone.')) return;
+
+    setDeletingPhotos(prev => new Set(prev).add(photoId));
+    try {
+      await purgePhoto(photoId);
+      if (selectedPhoto?.id === photoId) {
+        setSelectedPhoto(null);
+      }
+    } catch (error: any) {
+      console.error('❌ MODERATION: Purge failed:', error);
+      alert(`Failed to delete photo: ${error.message}`);
+    } finally {
+      setDeletingPhotos(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(photoId);
+        return newSet;
+      });
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm(`Permanently delete all ${trashedPhotos.length} photos in the trash? This cannot be undone.`)) return;
+    runBulk('Emptying trash', trashedPhotos.map(p => p.id), purgePhotos);
+  };
+
+  // Click toggles one photo; shift-click selects everything between it and the last click
+  const handleSelect = (photoId: string, range: boolean) => {
+    const anchorIndex = range && selectionAnchor ? filteredPhotos.findIndex(p => p.id === selectionAnchor) : -1;
+    const index = filteredPhotos.findIndex(p => p.id === photoId);
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (anchorIndex !== -1) {
+        const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        filteredPhotos.slice(from, to + 1).forEach(p => next.add(p.id));
+      } else if (next.has(photoId)) {
+        next.delete(photoId);
+      } else {
+        next.add(photoId);
+      }
+      return next;
+    });
+    setSelectionAnchor(photoId);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredPhotos.map(p => p.id)));
+    setSelectionAnchor(null);
+  };
+
+  // Runs one bulk operation at a time and reports its progress in the toolbar
+  const runBulk = async (
+    label: string,
+    photoIds: string[],
+    action: (photoIds: string[], onProgress: BulkProgress) => Promise<void>
+  ) => {
+    if (bulkTask || photoIds.length === 0) return false;
+
+    setBulkTask({ label, done: 0, total: photoIds.length });
+    try {
+      await action(photoIds, (done, total) => setBulkTask({ label, done, total }));
+      console.log(`✅ MODERATION: ${label} finished for ${photoIds.length} photos`);
+      setSelectedIds(new Set());
+      return true;
+    } catch (error: any) {
+      console.error(`❌ MODERATION: ${label} failed:`, error);
+      alert(`${label} failed: ${error.message}`);
+      return false;
+    } finally {
+      setBulkTask(null);
+    }
+  };
+
+  const selectedPhotoIds = selectedPhotos.map(p => p.id);
+
+  const handleBulkStatus = (status: PhotoStatus, label: string) =>
+    runBulk(label, selectedPhotoIds, (ids, onProgress) => updatePhotos(ids, { status }, onProgress));
+
+  const handleBulkDelete = async () => {
+    const ids = selectedPhotoIds;
+    if (await runBulk('Deleting', ids, deletePhotos)) {
+      setUndoPhotoIds(prev => [...prev, ...ids]);
+    }
+  };
+
+  const handleBulkPurge = () => {
+    if (!window.confirm(`Permanently delete ${selectedPhotoIds.length} photos? This cannot be undone.`)) return;
+    runBulk('Deleting permanently', selectedPhotoIds, purgePhotos);
+  };
+
+  // Trashes every photo of a group but the first one uploaded
+  const handleKeepFirst = async (group: Photo[]) => {
+    const ids = group.slice(1).map(p => p.id);
+    if (await runBulk('Deleting copies', ids, deletePhotos)) {
+      setUndoPhotoIds(prev => [...prev, ...ids]);
+    }
+  };
+
+  // One zip for the whole selection, named after the collage
+  const handleBulkDownload = () =>
+    runBulk('Downloading', selectedPhotoIds, async (ids, onProgress) => {
+      const photos = selectedPhotos.filter(p => ids.includes(p.id));
+      const failed = await downloadPhotos(photos, `${currentCollage?.code ?? 'collage'}-photos`, onProgress);
+      if (failed > 0) alert(`${failed} of ${ids.length} photos could not be downloaded and were left out.`);
+    });
+
+  const handleRetentionChange = async (days: number) => {
+    if (!currentCollage) return;
+    try {
+      await updateCollageSettings(currentCollage.id, { trashRetentionDays: days });
+    } catch (error: any) {
+      console.error('❌ MODERATION: Failed to update retention:', error);
+      alert(`Failed to update setting: ${error.message}`);
+    }
+  };
+
+  const handleUpdatePhoto = async (photoId: string, updates: PhotoUpdate) => {
+    try {
+      await updatePhoto(photoId, updates);
+      console.log('✅ MODERATION: Photo updated:', photoId, updates);
+    } catch (error: any) {
+      console.error('❌ MODERATION: Update failed:', error);
+      // Unique index on (collage_id, pinned_slot)
+      if (error.code === '23505') {
+        alert('Another photo is already pinned to that slot. Unpin it first.');
+      } else {
+        alert(`Failed to update photo: ${error.message}`);
+      }
+    }
+  };
+
+  const handleSetStatus = (photoId: string, status: PhotoStatus) => {
+    handleUpdatePhoto(photoId, { status });
+  };
+
+  const handleToggleRequireApproval = async () => {
+    if (!currentCollage) return;
+    try {
+      await updateCollageSettings(currentCollage.id, { requireApproval: !sceneSettings.requireApproval });
+      console.log('🛡️ MODERATION: Require approval', !sceneSettings.requireApproval ? 'on' : 'off');
+    } catch (error: any) {
+      console.error('❌ MODERATION: Failed to update approval setting:', error);
+      alert(`Failed to update setting: ${error.message}`);
+    }
+  };
+
+  const handleScreeningChange = async (screening: ScreeningSettingsValue) => {
+    if (!currentCollage) return;
+    try {
+      await updateCollageSettings(currentCollage.id, { screening });
+      console.log('🔍 MODERATION: Screening settings updated', screening);
+    } catch (error: any) {
+      console.error('❌ MODERATION: Failed to update screening settings:', error);
+      alert(`Failed to update setting: ${error.message}`);
+    }
+  };
+
+  const handleDuplicatesChange = async (duplicates: DuplicateSettingsValue) => {
+    if (!currentCollage) return;
+    try {
+      await updateCollageSettings(currentCollage.id, { duplicates });
+      console.log('👯 MODERATION: Duplicate settings updated', duplicates);
+    } catch (error: any) {
+      console.error('❌ MODERATION: Failed to update duplicate settings:', error);
+      alert(`Failed to update setting: ${error.message}`);
+    }
+  };
+
+  const skipInQueue = (direction: 1 | -1) => {
+    if (queue.length === 0) return;
+    setQueueIndex(index => (Math.min(index, queue.length - 1) + direction + queue.length) % queue.length);
+  };
+
+  // Queue shortcuts: A approves, R rejects, arrows skip, Esc goes back to the grid
+  useEffect(() => {
+    if (!queueMode) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      switch (event.key.toLowerCase()) {
+        case 'a':
+          if (queuePhoto) handleSetStatus(queuePhoto.id, 'approved');
+          break;
+        case 'r':
+          if (queuePhoto) handleSetStatus(queuePhoto.id, 'rejected');
+          break;
+        case 'arrowright':
+        case 's':
+          skipInQueue(1);
+          break;
+        case 'arrowleft':
+          skipInQueue(-1);
+          break;
+        case 'escape':
+          setQueueMode(false);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handlePinToSlot = (photoId: string, slot: number) => {
+    if (!Number.isInteger(slot) || slot < 0 || slot >= slotCount) {
+      alert(`Choose a slot between 1 and ${slotCount}.`);
+      return;
+    }
+    handleUpdatePhoto(photoId, { pinned_slot: slot });
+  };
+
   const openPhotoPreview = (photo: any) => {
     setSelectedPhoto(photo);
+    setSlotInput(photo.pinned_slot != null ? String(photo.pinned_slot + 1) : '');
   };
 
+  // Keep the modal in sync with realtime and optimistic updates
+  const previewPhoto = selectedPhoto ? safePhotos.find(p => p.id === selectedPhoto.id) || selectedPhoto : null;
+
   const closePhotoPreview = () => {
     setSelectedPhoto(null);
   };
 
+  // In the duplicates view each group of look-alikes starts with a header row
+  const renderGroupHeader = (group: Photo[]) => (
+    <div className="col-span-full flex flex-wrap items-center justify-between gap-2 pt-4">
+      <span className="flex items-center text-sm text-gray-300">
+        <Copy className="w-4 h-4 mr-2" />
+        {group.length} similar photos
+      </span>
+      <button
+        onClick={() => handleKeepFirst(group)}
+        disabled={!!bulkTask}
+        className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-md text-sm flex items-center space-x-1 transition-colors"
+      >
+        <Trash2 className="w-4 h-4" />
+        <span>Keep First, Delete {group.length - 1}</span>
+      </button>
+    </div>
+  );
+
+  // Photo clicked in the 3D wall; disappears by itself once deleted
+  const inspectedPhoto = safePhotos.find(p => p.id === inspectedPhotoId) || null;
+  const closeInspector = useCallback(() => setInspectedPhotoId(null), []);
+
   if (loading && !currentCollage) {
     return (
       <Layout>
@@ -162,7 +590,13 @@ const CollageModerationPage: React.FC = () => {
                 <span>•</span>
                 <span>Code: {currentCollage.code}</span>
                 <span>•</span>
-                <span>{safePhotos.length} photos</span>
+                <span>{activePhotos.length} photos</span>
+                {queue.length > 0 && (
+                  <>
+                    <span>•</span>
+                    <span className="text-yellow-400">{queue.length} awaiting approval</span>
+                  </>
+                )}
                 <span>•</span>
                 <div className="flex items-center space-x-1">
                   <div className={`w-2 h-2 rounded-full ${isRealtimeConnected ? 'bg-green-400' : 'bg-yellow-400'}`}></div>
@@ -173,6 +607,32 @@ const CollageModerationPage: React.FC = () => {
           </div>
           
           <div className="flex items-center space-x-2">
+            <button
+              onClick={() => {
+                setQueueMode(!queueMode);
+                setQueueIndex(0);
+              }}
+              className={`px-3 py-2 text-white rounded-md transition-colors text-sm flex items-center space-x-1 ${
+                queueMode ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-gray-600 hover:bg-gray-700'
+              }`}
+            >
+              <Inbox className="w-4 h-4" />
+              <span>Queue{queue.length > 0 ? ` (${queue.length})` : ''}</span>
+            </button>
+
+            <button
+              onClick={() => {
+                setShowWall(!showWall);
+                setInspectedPhotoId(null);
+              }}
+              className={`px-3 py-2 text-white rounded-md transition-colors text-sm flex items-center space-x-1 ${
+                showWall ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-600 hover:bg-gray-700'
+              }`}
+            >
+              <Box className="w-4 h-4" />
+              <span>3D Wall</span>
+            </button>
+
             <button
               onClick={handleRefresh}
               disabled={isRefreshing}
@@ -220,8 +680,292 @@ const CollageModerationPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Approval Settings */}
+        <div className="mb-6 p-4 bg-gray-800/50 rounded-lg border border-gray-700 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <span className="text-white font-medium">Require approval</span>
+              <p className="text-gray-400 text-sm">
+                {sceneSettings.requireApproval
+                  ? 'New photos wait in the queue until you approve them.'
+                  : 'New photos go live as soon as they are uploaded.'}
+              </p>
+            </div>
+            <label className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!sceneSettings.requireApproval}
+                onChange={handleToggleRequireApproval}
+                className="mr-2 bg-gray-800 border-gray-700"
+              />
+              <span className="text-sm text-gray-300">{sceneSettings.requireApproval ? 'On' : 'Off'}</span>
+            </label>
+          </div>
+
+          <div className="pt-4 border-t border-gray-700">
+            <ScreeningSettings settings={sceneSettings.screening} onChange={handleScreeningChange} />
+          </div>
+
+          <div className="pt-4 border-t border-gray-700">
+            <DuplicateSettings settings={sceneSettings.duplicates} onChange={handleDuplicatesChange} />
+          </div>
+        </div>
+
+        {/* Approval Queue - one photo at a time, oldest first */}
+        {queueMode && (
+          <div className="mb-6 bg-gray-900/50 rounded-lg border border-yellow-600/50 p-6">
+            {!queuePhoto ? (
+              <div className="text-center py-12">
+                <Inbox className="w-12 h-12 mx-auto mb-4 text-gray-500" />
+                <h3 className="text-xl font-bold text-white mb-2">Queue is empty</h3>
+                <p className="text-gray-400">New photos waiting for approval will show up here.</p>
+              </div>
+            ) : (
+              <div className="flex flex-col lg:flex-row gap-6">
+                <div className="flex-1 bg-black rounded-lg flex items-center justify-center min-h-[40vh]">
+                  <img
+                    src={queuePhoto.url}
+                    alt="Photo awaiting approval"
+                    className="max-w-full max-h-[60vh] object-contain"
+                  />
+                </div>
+                <div className="lg:w-72 space-y-4">
+                  <p className="text-gray-400 text-sm">
+                    {Math.min(queueIndex, queue.length - 1) + 1} of {queue.length} awaiting approval
+                  </p>
+                  {queuePhoto.screening_flags && queuePhoto.screening_flags.length > 0 && (
+                    <p className="flex items-start text-sm text-orange-300">
+                      <ScanSearch className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                      <span>Held by screening: {describeFlags(queuePhoto.screening_flags)}</span>
+                    </p>
+                  )}
+                  {queuePhoto.duplicate_of && (
+                    <p className="flex items-start text-sm text-purple-300">
+                      <Copy className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                      <span>Looks like a photo already in the collage</span>
+                    </p>
+                  )}
+                  {queuePhoto.caption && (
+                    <p className="text-white whitespace-pre-wrap">{queuePhoto.caption}</p>
+                  )}
+                  <p className="text-xs text-gray-400">
+                    Uploaded: {new Date(queuePhoto.created_at).toLocaleString()}
+                  </p>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => handleSetStatus(queuePhoto.id, 'approved')}
+                      className="px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors text-sm flex items-center justify-center space-x-1"
+                    >
+                      <Check className="w-4 h-4" />
+                      <span>Approve</span>
+                    </button>
+                    <button
+                      onClick={() => handleSetStatus(queuePhoto.id, 'rejected')}
+                      className="px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors text-sm flex items-center justify-center space-x-1"
+                    >
+                      <X className="w-4 h-4" />
+                      <span>Reject</span>
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => skipInQueue(1)}
+                    disabled={queue.length < 2}
+                    className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-md transition-colors text-sm flex items-center justify-center space-x-1"
+                  >
+                    <SkipForward className="w-4 h-4" />
+                    <span>Skip</span>
+                  </button>
+
+                  <p className="text-xs text-gray-500">
+                    Shortcuts: <kbd className="px-1 bg-gray-800 rounded">A</kbd> approve,{' '}
+                    <kbd className="px-1 bg-gray-800 rounded">R</kbd> reject,{' '}
+                    <kbd className="px-1 bg-gray-800 rounded">←</kbd>/<kbd className="px-1 bg-gray-800 rounded">→</kbd> skip,{' '}
+                    <kbd className="px-1 bg-gray-800 rounded">Esc</kbd> close
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 3D Wall - click a photo to fly to it and moderate it in place */}
+        {showWall && (
+          <div className="relative h-[60vh] mb-6 rounded-lg overflow-hidden border border-gray-700">
+            <CollageScene
+              photos={livePhotos}
+              settings={sceneSettings}
+              onPhotoSelect={setInspectedPhotoId}
+              inspectedPhotoId={inspectedPhoto?.id ?? null}
+            />
+            {inspectedPhoto && (
+              <PhotoDetailOverlay
+                photo={inspectedPhoto}
+                onClose={closeInspector}
+                onDelete={handleDeletePhoto}
+                deleting={deletingPhotos.has(inspectedPhoto.id)}
+              />
+            )}
+          </div>
+        )}
+
         {/* Photo Grid */}
         <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-6">
+          {/* Status Filter */}
+          {safePhotos.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {STATUS_FILTERS.map(({ value, label }) => {
+                // Duplicates are only worked out while their tab is open
+                const count = value === 'duplicates' && !showingDuplicates ? null : photosFor(value).length;
+                return (
+                  <button
+                    key={value}
+                    onClick={() => setStatusFilter(value)}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                      statusFilter === value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    {label}{count !== null && ` (${count})`}
+                  </button>
+                );
+              })}
+
+              <div className="flex items-center gap-2 ml-auto">
+                <select
+                  value={timeWindow}
+                  onChange={(e) => setTimeWindow(parseInt(e.target.value))}
+                  className="bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-sm text-white"
+                >
+                  {TIME_WINDOWS.map(({ minutes, label }) => (
+                    <option key={minutes} value={minutes}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={sourceFilter}
+                  onChange={(e) => setSourceFilter(e.target.value as 'all' | PhotoSource)}
+                  className="bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-sm text-white"
+                >
+                  {SOURCE_FILTERS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {/* Bulk Actions */}
+          {filteredPhotos.length > 0 && (
+            <div className="sticky top-0 z-20 flex flex-wrap items-center gap-2 mb-4 p-3 bg-gray-800/95 rounded-lg">
+              <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={toggleSelectAll}
+                  className="bg-gray-800 border-gray-700"
+                />
+                <span>
+                  {selectedPhotos.length > 0 ? `${selectedPhotos.length} selected` : `Select all (${filteredPhotos.length})`}
+                </span>
+              </label>
+
+              {bulkTask ? (
+                <div className="flex items-center gap-2 ml-auto text-sm text-gray-300">
+                  <span>{bulkTask.label}... {bulkTask.done}/{bulkTask.total}</span>
+                  <div className="w-32 h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${(bulkTask.done / bulkTask.total) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ) : selectedPhotos.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 ml-auto">
+                  {statusFilter === 'trash' ? (
+                    <>
+                      <button
+                        onClick={() => runBulk('Restoring', selectedPhotoIds, restorePhotos)}
+                        className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        <span>Restore</span>
+                      </button>
+                      <button
+                        onClick={handleBulkPurge}
+                        className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete Forever</span>
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleBulkStatus('approved', 'Approving')}
+                        className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      >
+                        <Check className="w-4 h-4" />
+                        <span>Approve</span>
+                      </button>
+                      <button
+                        onClick={() => handleBulkStatus('hidden', 'Hiding')}
+                        className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 text-white rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      >
+                        <EyeOff className="w-4 h-4" />
+                        <span>Hide</span>
+                      </button>
+                      <button
+                        onClick={handleBulkDelete}
+                        className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete</span>
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={handleBulkDownload}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm flex items-center space-x-1 transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Download</span>
+                  </button>
+                  <button
+                    onClick={() => setSelectedIds(new Set())}
+                    className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm transition-colors"
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Trash Controls */}
+          {statusFilter === 'trash' && (
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4 p-3 bg-gray-800/50 rounded-lg">
+              <label className="flex items-center space-x-2 text-sm text-gray-300">
+                <span>Keep deleted photos for</span>
+                <select
+                  value={retentionDays}
+                  onChange={(e) => handleRetentionChange(parseInt(e.target.value))}
+                  className="bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-white"
+                >
+                  {TRASH_RETENTION_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days} {days === 1 ? 'day' : 'days'}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleEmptyTrash}
+                disabled={trashedPhotos.length === 0}
+                className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-md transition-colors text-sm flex items-center space-x-1"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Empty Trash</span>
+              </button>
+            </div>
+          )}
+
           {safePhotos.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-6xl mb-4">📸</div>
@@ -236,12 +980,24 @@ const CollageModerationPage: React.FC = () => {
                 Share Collage Code
               </Link>
             </div>
-          ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-              {safePhotos.map((photo) => (
+          ) : photoSections.map(({ key, group, photos: sectionPhotos }) => (
+            <div key={key} className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+              {filteredPhotos.length === 0 && (
+                <p className="col-span-full text-center py-8 text-gray-400">
+                  {statusFilter === 'trash'
+                    ? 'The trash is empty.'
+                    : statusFilter === 'duplicates'
+                      ? 'No photos look alike.'
+                      : `No ${statusFilter === 'all' ? '' : `${statusFilter} `}photos.`}
+                </p>
+              )}
+              {group && renderGroupHeader(group)}
+              {sectionPhotos.map((photo) => (
                 <div
                   key={photo.id}
-                  className="bg-gray-800 rounded-lg overflow-hidden border border-gray-600 hover:border-gray-500 transition-colors group"
+                  className={`bg-gray-800 rounded-lg overflow-hidden border transition-colors group ${
+                    selectedIds.has(photo.id) ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-600 hover:border-gray-500'
+                  }`}
                 >
                   <div className="aspect-square relative">
                     <img
@@ -254,6 +1010,43 @@ const CollageModerationPage: React.FC = () => {
                         target.src = 'https://via.placeholder.com/400x400?text=Error+Loading';
                       }}
                     />
+                    {(statusOf(photo) !== 'approved' || (photo.screening_flags?.length ?? 0) > 0 || photo.duplicate_of) && (
+                      <div className="absolute bottom-2 left-2 flex space-x-1">
+                        {statusOf(photo) !== 'approved' && (
+                          <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_BADGES[statusOf(photo)]}`}>
+                            {statusOf(photo)}
+                          </span>
+                        )}
+                        {(photo.screening_flags?.length ?? 0) > 0 && (
+                          <span
+                            className="p-1 bg-orange-500 rounded-full"
+                            title={`Held by screening: ${describeFlags(photo.screening_flags)}`}
+                          >
+                            <ScanSearch className="w-3 h-3 text-white" />
+                          </span>
+                        )}
+                        {photo.duplicate_of && (
+                          <span className="p-1 bg-purple-600 rounded-full" title="Uploaded as a copy of another photo">
+                            <Copy className="w-3 h-3 text-white" />
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {(photo.featured || photo.pinned_slot != null) && (
+                      <div className="absolute top-2 left-2 flex space-x-1">
+                        {photo.featured && (
+                          <span className="p-1 bg-yellow-500 rounded-full" title="Featured">
+                            <Star className="w-3 h-3 text-white" />
+                          </span>
+                        )}
+                        {photo.pinned_slot != null && (
+                          <span className="px-2 py-0.5 bg-blue-600 rounded-full text-xs text-white flex items-center" title="Pinned slot">
+                            <Pin className="w-3 h-3 mr-1" />
+                            {photo.pinned_slot + 1}
+                          </span>
+                        )}
+                      </div>
+                    )}
                     <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-2">
                       <button
                         onClick={() => openPhotoPreview(photo)}
@@ -262,24 +1055,95 @@ const CollageModerationPage: React.FC = () => {
                       >
                         <Eye className="w-4 h-4 text-white" />
                       </button>
-                      <button
-                        onClick={() => handleDeletePhoto(photo.id)}
-                        disabled={deletingPhotos.has(photo.id)}
-                        className="p-2 bg-red-600 rounded-full hover:bg-red-700 transition-colors disabled:opacity-50"
-                        title="Delete photo"
-                      >
-                        {deletingPhotos.has(photo.id) ? (
-                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                        ) : (
-                          <Trash2 className="w-4 h-4 text-white" />
-                        )}
-                      </button>
+                      {photo.deleted_at ? (
+                        <>
+                          <button
+                            onClick={() => handleRestorePhotos([photo.id])}
+                            className="p-2 bg-green-600 rounded-full hover:bg-green-700 transition-colors"
+                            title="Restore photo"
+                          >
+                            <RotateCcw className="w-4 h-4 text-white" />
+                          </button>
+                          <button
+                            onClick={() => handlePurgePhoto(photo.id)}
+                            disabled={deletingPhotos.has(photo.id)}
+                            className="p-2 bg-red-600 rounded-full hover:bg-red-700 transition-colors disabled:opacity-50"
+                            title="Delete permanently"
+                          >
+                            <Trash2 className="w-4 h-4 text-white" />
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          {isPhotoLive(photo) ? (
+                            <button
+                              onClick={() => handleSetStatus(photo.id, 'hidden')}
+                              className="p-2 bg-gray-600 rounded-full hover:bg-gray-500 transition-colors"
+                              title="Hide from the screens"
+                            >
+                              <EyeOff className="w-4 h-4 text-white" />
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleSetStatus(photo.id, 'approved')}
+                              className="p-2 bg-green-600 rounded-full hover:bg-green-700 transition-colors"
+                              title="Approve photo"
+                            >
+                              <Check className="w-4 h-4 text-white" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleUpdatePhoto(photo.id, { featured: !photo.featured })}
+                            className={`p-2 rounded-full transition-colors ${photo.featured ? 'bg-yellow-500 hover:bg-yellow-600' : 'bg-gray-600 hover:bg-gray-500'}`}
+                            title={photo.featured ? 'Unfeature photo' : 'Feature photo (always on screen)'}
+                          >
+                            <Star className="w-4 h-4 text-white" />
+                          </button>
+                          <button
+                            onClick={() => handleDeletePhoto(photo.id)}
+                            disabled={deletingPhotos.has(photo.id)}
+                            className="p-2 bg-red-600 rounded-full hover:bg-red-700 transition-colors disabled:opacity-50"
+                            title="Delete photo"
+                          >
+                            {deletingPhotos.has(photo.id) ? (
+                              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4 text-white" />
+                            )}
+                          </button>
+                        </>
+                      )}
                     </div>
+                    {/* Above the hover actions so it stays clickable */}
+                    <label
+                      className={`absolute top-2 right-2 z-10 p-1 bg-black/60 rounded cursor-pointer transition-opacity ${
+                        selectedIds.size > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                      }`}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        handleSelect(photo.id, e.shiftKey);
+                      }}
+                      title="Select (shift-click to select a range)"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(photo.id)}
+                        readOnly
+                        className="block bg-gray-800 border-gray-700 pointer-events-none"
+                      />
+                    </label>
                   </div>
                   <div className="p-3">
-                    <p className="text-xs text-gray-400">
+                    <p className="text-xs text-gray-400 flex items-center">
+                      {photo.source === 'photobooth' && <Camera className="w-3 h-3 mr-1" />}
+                      {photo.source === 'uploader' && <Upload className="w-3 h-3 mr-1" />}
                       Uploaded: {new Date(photo.created_at).toLocaleString()}
                     </p>
+                    {photo.deleted_at && (
+                      <p className="text-xs text-red-400 mt-1">
+                        Deleted forever on {trashExpiry(photo, retentionDays).toLocaleDateString()}
+                      </p>
+                    )}
                     <p className="text-xs text-gray-500 mt-1">
                       ID: {photo.id.slice(-8)}
                     </p>
@@ -287,15 +1151,15 @@ const CollageModerationPage: React.FC = () => {
                 </div>
               ))}
             </div>
-          )}
+          ))}
         </div>
 
         {/* Photo Preview Modal */}
-        {selectedPhoto && (
+        {previewPhoto && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90">
             <div className="relative max-w-4xl max-h-[90vh] bg-gray-900 rounded-lg overflow-hidden">
               <img
-                src={selectedPhoto.url}
+                src={previewPhoto.url}
                 alt="Full size preview"
                 className="max-w-full max-h-[80vh] object-contain"
                 onError={(e) => {
@@ -306,13 +1170,22 @@ const CollageModerationPage: React.FC = () => {
               
               {/* Modal Controls */}
               <div className="absolute top-4 right-4 flex space-x-2">
+                {previewPhoto.deleted_at && (
+                  <button
+                    onClick={() => handleRestorePhotos([previewPhoto.id])}
+                    className="p-2 bg-green-600 rounded-full hover:bg-green-700 transition-colors"
+                    title="Restore photo"
+                  >
+                    <RotateCcw className="w-5 h-5 text-white" />
+                  </button>
+                )}
                 <button
-                  onClick={() => handleDeletePhoto(selectedPhoto.id)}
-                  disabled={deletingPhotos.has(selectedPhoto.id)}
+                  onClick={() => previewPhoto.deleted_at ? handlePurgePhoto(previewPhoto.id) : handleDeletePhoto(previewPhoto.id)}
+                  disabled={deletingPhotos.has(previewPhoto.id)}
                   className="p-2 bg-red-600 rounded-full hover:bg-red-700 transition-colors disabled:opacity-50"
-                  title="Delete photo"
+                  title={previewPhoto.deleted_at ? 'Delete permanently' : 'Delete photo'}
                 >
-                  {deletingPhotos.has(selectedPhoto.id) ? (
+                  {deletingPhotos.has(previewPhoto.id) ? (
                     <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
                   ) : (
                     <Trash2 className="w-5 h-5 text-white" />
@@ -331,16 +1204,110 @@ const CollageModerationPage: React.FC = () => {
               <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
                 <div className="text-white">
                   <p className="text-sm">
-                    Uploaded: {new Date(selectedPhoto.created_at).toLocaleString()}
+                    Uploaded: {new Date(previewPhoto.created_at).toLocaleString()}
                   </p>
                   <p className="text-xs text-gray-300 mt-1">
-                    ID: {selectedPhoto.id}
+                    ID: {previewPhoto.id}
                   </p>
+
+                  {/* Display Controls */}
+                  <div className="flex flex-wrap items-center gap-2 mt-3">
+                    <span className={`px-2 py-1 rounded-md text-xs capitalize ${STATUS_BADGES[statusOf(previewPhoto)]}`}>
+                      {statusOf(previewPhoto)}
+                    </span>
+                    {statusOf(previewPhoto) !== 'approved' && (
+                      <button
+                        onClick={() => handleSetStatus(previewPhoto.id, 'approved')}
+                        className="px-3 py-1.5 bg-green-600 hover:bg-green-700 rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      >
+                        <Check className="w-4 h-4" />
+                        <span>Approve</span>
+                      </button>
+                    )}
+                    {statusOf(previewPhoto) === 'pending' && (
+                      <button
+                        onClick={() => handleSetStatus(previewPhoto.id, 'rejected')}
+                        className="px-3 py-1.5 bg-red-600 hover:bg-red-700 rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                        <span>Reject</span>
+                      </button>
+                    )}
+                    {statusOf(previewPhoto) === 'approved' && (
+                      <button
+                        onClick={() => handleSetStatus(previewPhoto.id, 'hidden')}
+                        className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      >
+                        <EyeOff className="w-4 h-4" />
+                        <span>Hide</span>
+                      </button>
+                    )}
+
+                    <button
+                      onClick={() => handleUpdatePhoto(previewPhoto.id, { featured: !previewPhoto.featured })}
+                      className={`px-3 py-1.5 rounded-md text-sm flex items-center space-x-1 transition-colors ${
+                        previewPhoto.featured ? 'bg-yellow-500 hover:bg-yellow-600' : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      <Star className="w-4 h-4" />
+                      <span>{previewPhoto.featured ? 'Featured' : 'Feature'}</span>
+                    </button>
+
+                    <input
+                      type="number"
+                      min={1}
+                      max={slotCount}
+                      value={slotInput}
+                      onChange={(e) => setSlotInput(e.target.value)}
+                      placeholder="Slot #"
+                      className="w-20 bg-gray-800 border border-gray-700 rounded-md py-1.5 px-2 text-white text-sm"
+                    />
+                    <button
+                      onClick={() => handlePinToSlot(previewPhoto.id, parseInt(slotInput) - 1)}
+                      disabled={!slotInput}
+                      className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md text-sm flex items-center space-x-1 transition-colors"
+                    >
+                      <Pin className="w-4 h-4" />
+                      <span>Pin</span>
+                    </button>
+                    <button
+                      onClick={() => {
+                        const centre = findCentreSlot(sceneSettings);
+                        setSlotInput(String(centre + 1));
+                        handlePinToSlot(previewPhoto.id, centre);
+                      }}
+                      className="px-3 py-1.5 bg-purple-600 hover:bg-purple-700 rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      title="Pin to the middle of the current pattern"
+                    >
+                      <Crosshair className="w-4 h-4" />
+                      <span>Centre</span>
+                    </button>
+                    {previewPhoto.pinned_slot != null && (
+                      <button
+                        onClick={() => {
+                          setSlotInput('');
+                          handleUpdatePhoto(previewPhoto.id, { pinned_slot: null });
+                        }}
+                        className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-md text-sm flex items-center space-x-1 transition-colors"
+                      >
+                        <PinOff className="w-4 h-4" />
+                        <span>Unpin</span>
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
           </div>
         )}
+
+        {undoPhotoIds.length > 0 && (
+          <UndoToast
+            message={undoPhotoIds.length === 1 ? 'Photo moved to trash' : `${undoPhotoIds.length} photos moved to trash`}
+            onUndo={handleUndoDelete}
+            onDismiss={dismissUndo}
+          />
+        )}
       </div>
     </Layout>
   );
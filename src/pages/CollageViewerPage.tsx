@@ -1,11 +1,18 @@
 // src/pages/CollageViewerPage.tsx - ENHANCED WITH REAL-TIME PHOTO REMOVAL
-import React, { useEffect, useState, useCallback } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
-import { Share2, Upload, Edit, Maximize2, ChevronLeft } from 'lucide-react';
-import { useCollageStore } from '../store/collageStore';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Share2, Upload, Edit, Maximize2, ChevronLeft, Keyboard } from 'lucide-react';
+import { useCollageStore, isPhotoLive } from '../store/collageStore';
 import { ErrorBoundary } from 'react-error-boundary';
 import CollageScene from '../components/three/CollageScene';
 import PhotoUploader from '../components/collage/PhotoUploader';
+import PhotoDetailOverlay from '../components/collage/PhotoDetailOverlay';
+import { usePatternPlaylist } from '../hooks/usePatternPlaylist';
+import { parseWallTile, isWallFollower, type WallShow } from '../components/three/VideoWall';
+import { PatternRegistry } from '../components/three/patterns/PatternFactory';
+import InputHelpOverlay from '../components/collage/InputHelpOverlay';
+import { useViewerInput } from '../hooks/useViewerInput';
+import { createCameraInput, resolveBindings, PATTERN_SHORTCUTS, type InputAction } from '../lib/inputMap';
 
 // Error fallback component for 3D scene errors
 function SceneErrorFallback({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) {
@@ -41,14 +48,65 @@ const CollageViewerPage: React.FC = () => {
     cleanupRealtimeSubscription
   } = useCollageStore();
   
-  // SAFETY: Ensure photos is always an array
-  const safePhotos = Array.isArray(photos) ? photos : [];
+  // SAFETY: Ensure photos is always an array; only approved photos reach the screen
+  const safePhotos = useMemo(() => (Array.isArray(photos) ? photos.filter(isPhotoLive) : []), [photos]);
   
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [copied, setCopied] = useState(false);
   const [showUploader, setShowUploader] = useState(false);
   const [controlsVisible, setControlsVisible] = useState(true);
+  const [inspectedPhotoId, setInspectedPhotoId] = useState<string | null>(null);
+  // Keyboard/gamepad state
+  const [showHelp, setShowHelp] = useState(false);
+  const [animationPaused, setAnimationPaused] = useState(false);
+  const [patternOverride, setPatternOverride] = useState<string | null>(null);
+  const [cameraInput] = useState(createCameraInput);
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  // ?tile=0&cols=3&rows=1 turns this page into one display of a video wall
+  const wallTile = useMemo(() => parseWallTile(searchParams), [searchParams]);
+  const wallFollower = isWallFollower(wallTile);
+  // Playlist item the wall's leader is showing, for followers
+  const [leaderPlaylistItem, setLeaderPlaylistItem] = useState<string | null>(null);
+
+  // Clears itself if the photo is deleted while open
+  const inspectedPhoto = safePhotos.find(p => p.id === inspectedPhotoId) || null;
+  const closeInspector = useCallback(() => setInspectedPhotoId(null), []);
+
+  // Cycle through the collage's pattern playlist when one is configured; a pattern
+  // picked from the keyboard takes over until another is picked or the playlist resumes
+  const playlist = usePatternPlaylist(
+    currentCollage?.settings,
+    safePhotos.length,
+    wallFollower ? leaderPlaylistItem : undefined
+  );
+  const sceneSettings = useMemo(
+    () => (patternOverride ? { ...playlist.settings, animationPattern: patternOverride } : playlist.settings),
+    [playlist.settings, patternOverride]
+  );
+
+  // The leader shares its pause, pattern picks and playlist position; followers take them over
+  const handleWallShow = useCallback((show: WallShow) => {
+    setAnimationPaused(show.paused);
+    setPatternOverride(show.patternOverride);
+    setLeaderPlaylistItem(show.playlistItem);
+  }, []);
+  const videoWall = useMemo(
+    () => (wallTile && currentCollage ? {
+      tile: wallTile,
+      collageId: currentCollage.id,
+      show: { paused: animationPaused, patternOverride, playlistItem: playlist.itemId },
+      onShow: handleWallShow,
+    } : undefined),
+    [wallTile, currentCollage?.id, animationPaused, patternOverride, playlist.itemId, handleWallShow]
+  );
+
+  const inputBindings = useMemo(
+    () => resolveBindings(currentCollage?.settings?.inputBindings),
+    [currentCollage?.settings?.inputBindings]
+  );
+  const patternDefinitions = PatternRegistry.list();
 
   // CRITICAL: Debug logging for photo changes with more detail
   useEffect(() => {
@@ -111,6 +169,57 @@ const CollageViewerPage: React.FC = () => {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Steps through photos oldest to newest, opening each in the inspector
+  const stepPhoto = (direction: 1 | -1) => {
+    if (safePhotos.length === 0) return;
+    const ordered = [...safePhotos].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const current = ordered.findIndex(p => p.id === inspectedPhotoId);
+    const next = current === -1
+      ? (direction === 1 ? 0 : ordered.length - 1)
+      : (current + direction + ordered.length) % ordered.length;
+    setInspectedPhotoId(ordered[next].id);
+  };
+
+  const handleInputAction = (action: InputAction) => {
+    switch (action) {
+      case 'togglePause':
+        setAnimationPaused(paused => !paused);
+        break;
+      case 'nextPhoto':
+        stepPhoto(1);
+        break;
+      case 'previousPhoto':
+        stepPhoto(-1);
+        break;
+      case 'toggleFullscreen':
+        toggleFullscreen();
+        break;
+      case 'toggleHelp':
+        setShowHelp(show => !show);
+        break;
+      case 'resumePlaylist':
+        console.log('🎮 VIEWER: Back to the playlist');
+        setPatternOverride(null);
+        break;
+      default: {
+        const index = parseInt(action.replace('pattern', ''), 10) - 1;
+        const definition = patternDefinitions[index];
+        if (index >= 0 && index < PATTERN_SHORTCUTS && definition) {
+          console.log(`🎮 VIEWER: Switching to ${definition.name}`);
+          setPatternOverride(definition.id);
+        }
+      }
+    }
+  };
+
+  // Follower tiles of a video wall mirror the leader, so they take no input
+  useViewerInput({
+    bindings: inputBindings,
+    enabled: !wallFollower && !showUploader,
+    cameraInput,
+    onAction: handleInputAction,
+  });
+
   if (loading && !currentCollage) {
     return (
       <div className="min-h-screen bg-black">
@@ -149,26 +258,28 @@ const CollageViewerPage: React.FC = () => {
   return (
     <div className="min-h-screen bg-black">
       {/* Live Debug Panel - Direct Store Connection */}
-      <div className="fixed top-4 right-4 z-50 bg-red-900/80 text-white p-3 rounded-lg text-xs max-w-sm">
-        <h3 className="font-bold mb-1">LIVE STORE DEBUG:</h3>
-        <p>Store Photos: {useCollageStore.getState().photos?.length || 0}</p>
-        <p>Prop Photos: {safePhotos.length}</p>
-        <p>Realtime: {isRealtimeConnected ? '✅ Connected' : '⚠️ Polling'}</p>
-        <p>Last Update: {new Date(useCollageStore.getState().lastRefreshTime).toLocaleTimeString()}</p>
-        <p>Photo IDs: {(useCollageStore.getState().photos || []).map(p => p.id.slice(-4)).join(', ')}</p>
-        <button 
-          onClick={handleManualRefresh}
-          className="mt-1 px-2 py-1 bg-blue-600 rounded text-xs"
-        >
-          Refresh
-        </button>
-        <button 
-          onClick={() => console.log('LIVE STORE PHOTOS:', useCollageStore.getState().photos)}
-          className="mt-1 ml-1 px-2 py-1 bg-green-600 rounded text-xs"
-        >
-          Log Store
-        </button>
-      </div>
+      {!wallTile && (
+        <div className="fixed top-4 right-4 z-50 bg-red-900/80 text-white p-3 rounded-lg text-xs max-w-sm">
+          <h3 className="font-bold mb-1">LIVE STORE DEBUG:</h3>
+          <p>Store Photos: {useCollageStore.getState().photos?.length || 0}</p>
+          <p>Prop Photos: {safePhotos.length}</p>
+          <p>Realtime: {isRealtimeConnected ? '✅ Connected' : '⚠️ Polling'}</p>
+          <p>Last Update: {new Date(useCollageStore.getState().lastRefreshTime).toLocaleTimeString()}</p>
+          <p>Photo IDs: {(useCollageStore.getState().photos || []).map(p => p.id.slice(-4)).join(', ')}</p>
+          <button 
+            onClick={handleManualRefresh}
+            className="mt-1 px-2 py-1 bg-blue-600 rounded text-xs"
+          >
+            Refresh
+          </button>
+          <button 
+            onClick={() => console.log('LIVE STORE PHOTOS:', useCollageStore.getState().photos)}
+            className="mt-1 ml-1 px-2 py-1 bg-green-600 rounded text-xs"
+          >
+            Log Store
+          </button>
+        </div>
+      )}
 
       {/* Main Scene - FIXED: CollageScene now gets photos directly from store */}
       <div className="relative w-full h-screen">
@@ -178,7 +289,13 @@ const CollageViewerPage: React.FC = () => {
         >
           <CollageScene 
             photos={safePhotos}
-            settings={currentCollage.settings}
+            settings={sceneSettings}
+            videoWall={videoWall}
+            // Wall tiles are display-only
+            onPhotoSelect={wallTile ? undefined : setInspectedPhotoId}
+            inspectedPhotoId={inspectedPhoto?.id ?? null}
+            cameraInput={cameraInput}
+            animationPaused={animationPaused}
             onSettingsChange={(newSettings) => {
               // Optional: Handle settings changes from the viewer
               console.log('🎛️ Settings changed from viewer:', newSettings);
@@ -186,8 +303,8 @@ const CollageViewerPage: React.FC = () => {
           />
         </ErrorBoundary>
 
-        {/* Floating Controls */}
-        {controlsVisible && (
+        {/* Floating Controls - hidden on video wall displays so they don't split across screens */}
+        {controlsVisible && !wallTile && (
           <div className="absolute top-4 left-4 right-4 z-10">
             <div className="bg-black/80 backdrop-blur-sm rounded-lg border border-gray-700 p-4">
               <div className="flex items-center justify-between">
@@ -230,6 +347,14 @@ const CollageViewerPage: React.FC = () => {
                     <span>{copied ? 'Copied!' : 'Share'}</span>
                   </button>
                   
+                  <button
+                    onClick={() => setShowHelp(true)}
+                    className="px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md transition-colors text-sm"
+                    title="Keyboard and gamepad controls"
+                  >
+                    <Keyboard className="w-4 h-4" />
+                  </button>
+
                   <button
                     onClick={toggleFullscreen}
                     className="px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md transition-colors text-sm"
@@ -242,6 +367,25 @@ const CollageViewerPage: React.FC = () => {
           </div>
         )}
 
+        {inspectedPhoto && (
+          <PhotoDetailOverlay photo={inspectedPhoto} onClose={closeInspector} />
+        )}
+
+        {/* Pause is shared across a video wall, so only the leader shows it */}
+        {animationPaused && !wallFollower && (
+          <div className="absolute bottom-4 right-4 z-10 bg-black/80 rounded-lg px-3 py-1 text-white text-sm">
+            Paused
+          </div>
+        )}
+
+        {showHelp && (
+          <InputHelpOverlay
+            bindings={inputBindings}
+            patternNames={patternDefinitions.map(definition => definition.name)}
+            onClose={() => setShowHelp(false)}
+          />
+        )}
+
         {/* Photo Uploader Modal */}
         {showUploader && (
           <div className="absolute inset-0 z-20 bg-black/50 flex items-center justify-center p-4">
@@ -1,7 +1,7 @@
 // src/pages/PhotoboothPage.tsx
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Camera, SwitchCamera, Download, Send, X, RefreshCw, Type, ArrowLeft, Settings } from 'lucide-react';
+import { Camera, SwitchCamera, Download, Send, X, RefreshCw, Type, ArrowLeft, Settings, MessageSquare } from 'lucide-react';
 import { useCollageStore, Photo } from '../store/collageStore';
 import Layout from '../components/layout/Layout';
 
@@ -24,6 +24,7 @@ const PhotoboothPage: React.FC = () => {
   const [selectedDevice, setSelectedDevice] = useState<string>('');
   const [photo, setPhoto] = useState<string | null>(null);
   const [text, setText] = useState('');
+  const [caption, setCaption] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
   const [cameraState, setCameraState] = useState<CameraState>('idle');
@@ -370,14 +371,17 @@ const PhotoboothPage: React.FC = () => {
       const blob = await response.blob();
       const file = new File([blob], 'photobooth.jpg', { type: 'image/jpeg' });
 
-      const result = await uploadPhoto(currentCollage.id, file);
+      const result = await uploadPhoto(currentCollage.id, file, caption, 'photobooth');
       if (result) {        
         // Reset state
         setPhoto(null);
         setText('');
+        setCaption('');
         
         // Show success message
-        setError('Photo uploaded successfully! Your photo will appear in the collage automatically.');
+        setError(result.status === 'pending'
+          ? 'Photo uploaded successfully! It will appear in the collage once a host approves it.'
+          : 'Photo uploaded successfully! Your photo will appear in the collage automatically.');
         setTimeout(() => setError(null), 3000);
         
         // Restart camera after a brief delay
@@ -394,7 +398,7 @@ const PhotoboothPage: React.FC = () => {
     } finally {
       setUploading(false);
     }
-  }, [photo, currentCollage, uploadPhoto, startCamera, selectedDevice]);
+  }, [photo, currentCollage, uploadPhoto, caption, startCamera, selectedDevice]);
 
   const downloadPhoto = useCallback(() => {
     if (!photo) return;
@@ -651,6 +655,26 @@ const PhotoboothPage: React.FC = () => {
               </div>
             </div>
 
+            {/* Caption */}
+            <div className="bg-gray-900 rounded-lg p-6">
+              <div className="flex items-center space-x-2 mb-4">
+                <MessageSquare className="w-5 h-5 text-pink-400" />
+                <h3 className="text-lg font-semibold text-white">Caption</h3>
+              </div>
+
+              <input
+                type="text"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                placeholder="Your name or a short message..."
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-pink-500"
+                maxLength={140}
+              />
+              <p className="mt-2 text-xs text-gray-400">
+                Shown on the big screen when your photo arrives
+              </p>
+            </div>
+
             {/* Camera Settings */}
             {devices.length > 0 && (
               <div className="bg-gray-900 rounded-lg p-6">
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { useCollageStore, type Photo } from './collageStore';
+
+type ChangeHandler = (payload: { eventType: string; new: Partial<Photo>; old: Partial<Photo> }) => void;
+
+// Captures the realtime handler so tests can play postgres_changes events into the store
+const realtime = vi.hoisted(() => ({ handler: null as ChangeHandler | null }));
+
+vi.mock('../lib/supabase', () => {
+  const channel = {
+    on: (_type: string, _filter: unknown, handler: ChangeHandler) => {
+      realtime.handler = handler;
+      return channel;
+    },
+    subscribe: (callback: (status: string) => void) => {
+      callback('SUBSCRIBED');
+      return channel;
+    },
+  };
+  return { supabase: { channel: () => channel, removeChannel: () => undefined } };
+});
+
+const photo = (id: string, overrides: Partial<Photo> = {}): Photo => ({
+  id,
+  collage_id: 'collage',
+  url: `https://example.com/${id}.jpg`,
+  status: 'approved',
+  deleted_at: null,
+  created_at: '2025-06-01T12:00:00.000Z',
+  ...overrides,
+});
+
+const update = (updated: Photo, old: Partial<Photo>) =>
+  realtime.handler!({ eventType: 'UPDATE', new: updated, old });
+
+describe('collage store realtime', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    useCollageStore.setState({ photos: [], pendingArrivals: [], liveOnly: true });
+    useCollageStore.getState().setupRealtimeSubscription('collage');
+  });
+
+  afterEach(() => {
+    useCollageStore.getState().cleanupRealtimeSubscription();
+    vi.restoreAllMocks();
+  });
+
+  it('brings a photo restored from the trash back to public screens without an arrival', () => {
+    update(photo('restored'), { id: 'restored', status: 'approved', deleted_at: '2025-06-02T09:00:00.000Z' });
+
+    const { photos, pendingArrivals } = useCollageStore.getState();
+    expect(photos.map(p => p.id)).toEqual(['restored']);
+    expect(pendingArrivals).toEqual([]);
+  });
+
+  it('gives a photo approved from the queue an arrival on public screens', () => {
+    update(photo('approved'), { id: 'approved', status: 'pending', deleted_at: null });
+
+    const { photos, pendingArrivals } = useCollageStore.getState();
+    expect(photos.map(p => p.id)).toEqual(['approved']);
+    expect(pendingArrivals.map(p => p.id)).toEqual(['approved']);
+  });
+
+  it('adds an unknown live photo quietly when the event has no old values', () => {
+    update(photo('unknown'), { id: 'unknown' });
+
+    expect(useCollageStore.getState().photos.map(p => p.id)).toEqual(['unknown']);
+    expect(useCollageStore.getState().pendingArrivals).toEqual([]);
+  });
+
+  it('drops a photo from public screens when it is trashed', () => {
+    useCollageStore.setState({ photos: [photo('trashed'), photo('kept')] });
+    update(photo('trashed', { deleted_at: '2025-06-02T09:00:00.000Z' }), { id: 'trashed', status: 'approved', deleted_at: null });
+
+    expect(useCollageStore.getState().photos.map(p => p.id)).toEqual(['kept']);
+  });
+
+  it('keeps trashed photos on host pages, which load everything', () => {
+    useCollageStore.setState({ photos: [photo('trashed')], liveOnly: false });
+    update(photo('trashed', { deleted_at: '2025-06-02T09:00:00.000Z' }), { id: 'trashed', status: 'approved', deleted_at: null });
+
+    expect(useCollageStore.getState().photos[0].deleted_at).toBe('2025-06-02T09:00:00.000Z');
+  });
+});
@@ -3,6 +3,8 @@ import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
 import { nanoid } from 'nanoid';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { screenPhoto, type ScreeningFlag } from '../lib/screening';
+import { resolveDuplicateSettings } from '../lib/duplicates';
 
 // Helper function to get file URL
 const getFileUrl = (bucket: string, path: string): string => {
@@ -25,7 +27,7 @@ function deepMerge(target: any, source: any): any {
 
 // Default scene settings
 const defaultSettings = {
-  animationPattern: 'grid_wall',
+  animationPattern: 'grid',
   photoCount: 100,
   animationSpeed: 50,
   cameraDistance: 15,
@@ -44,20 +46,76 @@ const defaultSettings = {
   ambientLightIntensity: 0.4,
   spotlightIntensity: 0.8,
   patterns: {
-    grid_wall: { enabled: true },
+    grid: { enabled: true },
     float: { enabled: false },
     wave: { enabled: false },
     spiral: { enabled: false }
   }
 };
 
+// Arrivals beyond this are dropped oldest-first so a burst doesn't queue for minutes
+const MAX_PENDING_ARRIVALS = 10;
+
+// How long deleted photos stay in the trash when the collage doesn't say
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Rows per request for bulk updates and deletes, to keep the id list in the URL short
+const BULK_CHUNK_SIZE = 100;
+
+// Storage path (collage_id/filename) of a photo's public URL
+const storagePathFromUrl = (url: string): string => {
+  const pathParts = new URL(url).pathname.split('/');
+  return pathParts.slice(-2).join('/');
+};
+
+// Photos start pending when the collage requires approval; only approved ones reach the screens
+export type PhotoStatus = 'pending' | 'approved' | 'rejected' | 'hidden';
+
+// Where a photo was taken; older rows have none
+export type PhotoSource = 'photobooth' | 'uploader';
+
+// Called after each chunk of a bulk operation
+export type BulkProgress = (done: number, total: number) => void;
+
 export interface Photo {
   id: string;
   collage_id: string;
   url: string;
+  caption?: string | null;
+  pinned_slot?: number | null;
+  featured?: boolean;
+  status?: PhotoStatus;
+  source?: PhotoSource | null;
+  // Rules the upload screening tripped; such photos start out pending
+  screening_flags?: ScreeningFlag[] | null;
+  // Perceptual hash taken at upload; older rows have none
+  phash?: string | null;
+  // The photo this upload looked like when it was grouped as a duplicate
+  duplicate_of?: string | null;
+  // Set when the photo is in the trash
+  deleted_at?: string | null;
   created_at: string;
 }
 
+// Fields hosts can change on an existing photo
+export type PhotoUpdate = Partial<Pick<Photo, 'caption' | 'pinned_slot' | 'featured' | 'status' | 'deleted_at'>>;
+
+// Rows from before the status column count as approved; trashed photos are never live
+export const isPhotoLive = (photo: Photo): boolean =>
+  !photo.deleted_at && (!photo.status || photo.status === 'approved');
+
+// A collage's photos, newest first. Public screens ask only for live ones, so viewers
+// never download trashed or unapproved photos or their URLs
+const selectPhotos = (collageId: string, liveOnly: boolean) => {
+  const query = supabase.from('photos').select('*').eq('collage_id', collageId);
+  return (liveOnly ? query.eq('status', 'approved').is('deleted_at', null) : query)
+    .order('created_at', { ascending: false });
+};
+
+// When a trashed photo is purged for good
+export const trashExpiry = (photo: Photo, retentionDays: number): Date =>
+  new Date(new Date(photo.deleted_at || Date.now()).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+
 export interface Collage {
   id: string;
   name: string;
@@ -100,6 +158,10 @@ interface CollageStore {
   isRealtimeConnected: boolean;
   lastRefreshTime: number;
   pollingInterval: NodeJS.Timeout | null;
+  // Photos that arrived over realtime and haven't had their hero moment yet
+  pendingArrivals: Photo[];
+  // Set for collages opened by code (viewer, photobooth), which only load live photos
+  liveOnly: boolean;
 
   // Actions
   fetchCollages: () => Promise<void>;
@@ -107,8 +169,16 @@ interface CollageStore {
   fetchCollageById: (id: string) => Promise<Collage | null>;
   createCollage: (name: string) => Promise<Collage | null>;
   updateCollageSettings: (collageId: string, settings: Partial<SceneSettings>) => Promise<any>;
-  uploadPhoto: (collageId: string, file: File) => Promise<Photo | null>;
+  uploadPhoto: (collageId: string, file: File, caption?: string, source?: PhotoSource) => Promise<Photo | null>;
   deletePhoto: (photoId: string) => Promise<void>;
+  restorePhoto: (photoId: string) => Promise<void>;
+  purgePhoto: (photoId: string) => Promise<void>;
+  purgeExpiredPhotos: (collageId: string, retentionDays: number) => Promise<number>;
+  updatePhoto: (photoId: string, updates: PhotoUpdate) => Promise<void>;
+  updatePhotos: (photoIds: string[], updates: PhotoUpdate, onProgress?: BulkProgress) => Promise<void>;
+  deletePhotos: (photoIds: string[], onProgress?: BulkProgress) => Promise<void>;
+  restorePhotos: (photoIds: string[], onProgress?: BulkProgress) => Promise<void>;
+  purgePhotos: (photoIds: string[], onProgress?: BulkProgress) => Promise<void>;
   fetchPhotosByCollageId: (collageId: string) => Promise<void>;
   refreshPhotos: (collageId: string) => Promise<void>;
   
@@ -119,6 +189,8 @@ interface CollageStore {
   // Internal methods
   addPhotoToState: (photo: Photo) => void;
   removePhotoFromState: (photoId: string) => void;
+  takeArrival: () => Photo | undefined;
+  clearArrivals: () => void;
   startPolling: (collageId: string) => void;
   stopPolling: () => void;
 }
@@ -134,6 +206,8 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
   isRealtimeConnected: false,
   lastRefreshTime: 0,
   pollingInterval: null,
+  pendingArrivals: [],
+  liveOnly: false,
 
   // Add photo to state - ENHANCED
   addPhotoToState: (photo: Photo) => {
@@ -148,11 +222,38 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       // Add new photo at the beginning (most recent first)
       return {
         photos: [photo, ...state.photos],
+        // During a burst only the latest arrivals get a hero moment; photos waiting
+        // for approval get theirs when they're approved
+        pendingArrivals: isPhotoLive(photo)
+          ? [...state.pendingArrivals, photo].slice(-MAX_PENDING_ARRIVALS)
+          : state.pendingArrivals,
         lastRefreshTime: Date.now()
       };
     });
   },
 
+  // Hand the next arrival to the scene, skipping photos deleted or hidden while they waited
+  takeArrival: () => {
+    const { pendingArrivals, photos } = get();
+    const remaining = [...pendingArrivals];
+    let next: Photo | undefined;
+
+    while (remaining.length > 0 && !next) {
+      const candidate = remaining.shift()!;
+      const current = photos.find(p => p.id === candidate.id);
+      if (current && isPhotoLive(current)) {
+        next = current;
+      }
+    }
+
+    set({ pendingArrivals: remaining });
+    return next;
+  },
+
+  clearArrivals: () => {
+    set({ pendingArrivals: [] });
+  },
+
   // Remove photo from state - ENHANCED
   removePhotoFromState: (photoId: string) => {
     console.log('🗑️ Removing photo from state:', photoId);
@@ -196,7 +297,9 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
           
           if (payload.eventType === 'INSERT' && payload.new) {
             console.log('➕ REALTIME INSERT:', payload.new.id);
-            get().addPhotoToState(payload.new as Photo);
+            if (!get().liveOnly || isPhotoLive(payload.new as Photo)) {
+              get().addPhotoToState(payload.new as Photo);
+            }
           } 
           else if (payload.eventType === 'DELETE' && payload.old) {
             console.log('🗑️ REALTIME DELETE:', payload.old.id);
@@ -204,13 +307,40 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
           }
           else if (payload.eventType === 'UPDATE' && payload.new) {
             console.log('📝 REALTIME UPDATE:', payload.new.id);
-            // Handle photo updates if needed
-            set((state) => ({
-              photos: state.photos.map(p => 
-                p.id === payload.new.id ? { ...p, ...payload.new } : p
-              ),
-              lastRefreshTime: Date.now()
-            }));
+            const updated = payload.new as Photo;
+            // Old values come with the event since the photos table has REPLICA IDENTITY FULL
+            const old = payload.old as Partial<Photo>;
+            set((state) => {
+              const previous = state.photos.find(p => p.id === updated.id);
+              const before = previous ?? old;
+              // A photo that was just approved arrives on the screens now (a restore from
+              // the trash keeps its status, so it quietly returns instead)
+              const approved = before.status !== undefined && before.status !== updated.status && isPhotoLive(updated);
+              const arrivals = approved
+                ? [...state.pendingArrivals, { ...previous, ...updated }].slice(-MAX_PENDING_ARRIVALS)
+                : state.pendingArrivals;
+
+              // Public screens only hold live photos: drop ones that stop being live and
+              // pick up ones they never loaded, such as a photo restored from the trash
+              if (state.liveOnly && !isPhotoLive(updated)) {
+                return previous
+                  ? { photos: state.photos.filter(p => p.id !== updated.id), lastRefreshTime: Date.now() }
+                  : state;
+              }
+              if (!previous) {
+                return state.liveOnly
+                  ? { photos: [updated, ...state.photos], pendingArrivals: arrivals, lastRefreshTime: Date.now() }
+                  : state;
+              }
+
+              return {
+                photos: state.photos.map(p => 
+                  p.id === updated.id ? { ...p, ...updated } : p
+                ),
+                pendingArrivals: arrivals,
+                lastRefreshTime: Date.now()
+              };
+            });
           }
         }
       )
@@ -262,16 +392,14 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     
     const interval = setInterval(async () => {
       try {
-        const { data, error } = await supabase
-          .from('photos')
-          .select('*')
-          .eq('collage_id', collageId)
-          .order('created_at', { ascending: false });
+        const { data, error } = await selectPhotos(collageId, get().liveOnly);
 
         if (error) throw error;
         
-        const currentPhotoIds = get().photos.map(p => p.id).sort().join(',');
-        const newPhotoIds = (data || []).map(p => p.id).sort().join(',');
+        // Include display options and status so pin/feature/approval changes reach polling screens too
+        const photoKey = (p: Photo) => `${p.id}:${p.pinned_slot ?? ''}:${p.featured ? 1 : 0}:${p.status ?? ''}:${p.deleted_at ?? ''}`;
+        const currentPhotoIds = get().photos.map(photoKey).sort().join(',');
+        const newPhotoIds = (data || []).map(photoKey).sort().join(',');
         
         if (currentPhotoIds !== newPhotoIds) {
           console.log('📡 Polling detected changes, updating state');
@@ -301,11 +429,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     try {
       console.log('🔄 Refreshing photos for collage:', collageId);
       
-      const { data, error } = await supabase
-        .from('photos')
-        .select('*')
-        .eq('collage_id', collageId)
-        .order('created_at', { ascending: false });
+      const { data, error } = await selectPhotos(collageId, get().liveOnly);
 
       if (error) throw error;
       
@@ -327,17 +451,14 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     try {
       console.log('📸 Fetching photos for collage:', collageId);
       
-      const { data, error } = await supabase
-        .from('photos')
-        .select('*')
-        .eq('collage_id', collageId)
-        .order('created_at', { ascending: false });
+      const { data, error } = await selectPhotos(collageId, get().liveOnly);
 
       if (error) throw error;
       
       console.log('📸 Fetched photos:', data?.length || 0);
       set({ 
         photos: data as Photo[], 
+        pendingArrivals: [],
         lastRefreshTime: Date.now() 
       });
       
@@ -385,7 +506,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         settings: settings?.settings ? deepMerge(defaultSettings, settings.settings) : defaultSettings
       } as Collage;
 
-      set({ currentCollage: collageWithSettings, loading: false });
+      set({ currentCollage: collageWithSettings, liveOnly: true, loading: false });
       
       // Fetch photos and setup subscription
       await get().fetchPhotosByCollageId(collage.id);
@@ -420,7 +541,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         settings: settings?.settings ? deepMerge(defaultSettings, settings.settings) : defaultSettings
       } as Collage;
 
-      set({ currentCollage: collageWithSettings, loading: false });
+      set({ currentCollage: collageWithSettings, liveOnly: false, loading: false });
       
       // Fetch photos and setup subscription
       await get().fetchPhotosByCollageId(id);
@@ -505,7 +626,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
   },
 
   // Enhanced upload with better error handling
-  uploadPhoto: async (collageId: string, file: File) => {
+  uploadPhoto: async (collageId: string, file: File, caption?: string, source: PhotoSource = 'uploader') => {
     try {
       console.log('📤 Starting photo upload:', file.name);
       
@@ -520,6 +641,39 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         throw new Error('Invalid file type. Only images are supported.');
       }
 
+      // Screen and hash locally before anything is stored; a photo that trips a rule is held
+      // for review. A screening failure shouldn't lose the photo, so it just goes through unscreened
+      let screeningFlags: ScreeningFlag[] = [];
+      let phash: string | null = null;
+      const collage = get().currentCollage;
+      if (collage?.id === collageId) {
+        try {
+          const screening = await screenPhoto(file, collage.settings?.screening);
+          screeningFlags = screening.flags;
+          phash = screening.hash;
+        } catch (error) {
+          console.warn('⚠️ Screening failed, uploading without it:', error);
+        }
+      }
+
+      // Rejecting repeats needs an answer before the upload; grouping them with the photo
+      // they look like is done by the insert trigger from the stored hash
+      const duplicates = resolveDuplicateSettings(collage?.settings?.duplicates);
+      if (phash && duplicates.mode === 'reject') {
+        const { data: distance, error: matchError } = await supabase.rpc('find_duplicate_photo', {
+          p_collage_id: collageId,
+          p_phash: phash,
+          p_max_distance: duplicates.maxDistance
+        });
+        if (matchError) {
+          console.warn('⚠️ Duplicate check failed, uploading without it:', matchError);
+        }
+        if (distance !== null && distance !== undefined) {
+          console.log(`👯 Upload matches an existing photo (${distance} bits apart)`);
+          throw new Error('This photo is already in the collage');
+        }
+      }
+
       // Generate unique filename
       const fileExt = file.name.split('.').pop();
       const fileName = `${collageId}/${nanoid()}.${fileExt}`;
@@ -550,7 +704,11 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         .from('photos')
         .insert([{
           collage_id: collageId,
-          url: publicUrl
+          url: publicUrl,
+          caption: caption?.trim() || null,
+          source,
+          screening_flags: screeningFlags.length > 0 ? screeningFlags : null,
+          phash
         }])
         .select()
         .single();
@@ -562,7 +720,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         throw dbError;
       }
 
-      console.log('✅ Photo record created:', photo.id);
+      console.log('✅ Photo record created:', photo.id, photo.status);
       console.log('🔔 Realtime should now broadcast this to all clients');
       
       return photo as Photo;
@@ -573,10 +731,100 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     }
   },
 
-  // Enhanced delete with better error handling
+  // Update a photo's display options; realtime carries the change to every screen
+  updatePhoto: async (photoId: string, updates: PhotoUpdate) => {
+    const previous = get().photos.find(p => p.id === photoId);
+
+    // Apply locally first so moderation controls feel instant
+    set((state) => ({
+      photos: state.photos.map(p => p.id === photoId ? { ...p, ...updates } : p),
+      lastRefreshTime: Date.now()
+    }));
+
+    try {
+      console.log('📝 Updating photo:', photoId, updates);
+
+      const { error } = await supabase
+        .from('photos')
+        .update(updates)
+        .eq('id', photoId);
+
+      if (error) throw error;
+    } catch (error: any) {
+      console.error('❌ Update photo error:', error);
+      if (previous) {
+        set((state) => ({
+          photos: state.photos.map(p => p.id === photoId ? previous : p),
+          lastRefreshTime: Date.now()
+        }));
+      }
+      throw error;
+    }
+  },
+
+  // Apply the same change to many photos, a chunk of rows per request
+  updatePhotos: async (photoIds: string[], updates: PhotoUpdate, onProgress?: BulkProgress) => {
+    const ids = new Set(photoIds);
+    const previous = get().photos.filter(p => ids.has(p.id));
+
+    set((state) => ({
+      photos: state.photos.map(p => ids.has(p.id) ? { ...p, ...updates } : p),
+      lastRefreshTime: Date.now()
+    }));
+
+    let done = 0;
+    try {
+      console.log(`📝 Updating ${photoIds.length} photos:`, updates);
+
+      for (let i = 0; i < photoIds.length; i += BULK_CHUNK_SIZE) {
+        const chunk = photoIds.slice(i, i + BULK_CHUNK_SIZE);
+        const { error } = await supabase
+          .from('photos')
+          .update(updates)
+          .in('id', chunk);
+
+        if (error) throw error;
+        done += chunk.length;
+        onProgress?.(done, photoIds.length);
+      }
+    } catch (error: any) {
+      console.error('❌ Bulk update error:', error);
+      // Only roll back the photos whose chunk didn't make it
+      const saved = new Set(photoIds.slice(0, done));
+      const failed = new Map(previous.filter(p => !saved.has(p.id)).map(p => [p.id, p]));
+      set((state) => ({
+        photos: state.photos.map(p => failed.get(p.id) || p),
+        lastRefreshTime: Date.now()
+      }));
+      throw error;
+    }
+  },
+
+  deletePhotos: async (photoIds: string[], onProgress?: BulkProgress) => {
+    console.log(`🗑️ Moving ${photoIds.length} photos to trash`);
+    await get().updatePhotos(photoIds, { deleted_at: new Date().toISOString() }, onProgress);
+  },
+
+  restorePhotos: async (photoIds: string[], onProgress?: BulkProgress) => {
+    console.log(`♻️ Restoring ${photoIds.length} photos from trash`);
+    await get().updatePhotos(photoIds, { deleted_at: null }, onProgress);
+  },
+
+  // Move a photo to the trash; screens drop it at once and it can be restored until purged
   deletePhoto: async (photoId: string) => {
+    console.log('🗑️ Moving photo to trash:', photoId);
+    await get().updatePhoto(photoId, { deleted_at: new Date().toISOString() });
+  },
+
+  restorePhoto: async (photoId: string) => {
+    console.log('♻️ Restoring photo from trash:', photoId);
+    await get().updatePhoto(photoId, { deleted_at: null });
+  },
+
+  // Permanently remove a photo's file and row
+  purgePhoto: async (photoId: string) => {
     try {
-      console.log('🗑️ Starting photo deletion:', photoId);
+      console.log('🗑️ Starting photo purge:', photoId);
       
       // First, get the photo to find the storage path
       const { data: photo, error: fetchError } = await supabase
@@ -586,15 +834,11 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         .single();
 
       if (fetchError) {
-        console.error('❌ Error fetching photo for deletion:', fetchError);
+        console.error('❌ Error fetching photo for purge:', fetchError);
         throw fetchError;
       }
 
-      // Extract storage path from URL
-      const url = new URL(photo.url);
-      const pathParts = url.pathname.split('/');
-      const storagePath = pathParts.slice(-2).join('/'); // Get collage_id/filename
-
+      const storagePath = storagePathFromUrl(photo.url);
       console.log('🗑️ Deleting from storage:', storagePath);
 
       // Delete from storage
@@ -618,12 +862,80 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         throw dbError;
       }
 
-      console.log('✅ Photo deleted successfully:', photoId);
-      console.log('🔔 Realtime should now broadcast deletion to all clients');
+      get().removePhotoFromState(photoId);
+      console.log('✅ Photo purged successfully:', photoId);
       
     } catch (error: any) {
-      console.error('❌ Delete photo error:', error);
+      console.error('❌ Purge photo error:', error);
       throw error;
     }
+  },
+
+  // Permanently remove many photos' files and rows, a chunk at a time
+  purgePhotos: async (photoIds: string[], onProgress?: BulkProgress) => {
+    let done = 0;
+
+    for (let i = 0; i < photoIds.length; i += BULK_CHUNK_SIZE) {
+      const chunk = photoIds.slice(i, i + BULK_CHUNK_SIZE);
+
+      const { data, error: fetchError } = await supabase
+        .from('photos')
+        .select('url')
+        .in('id', chunk);
+
+      if (fetchError) {
+        console.error('❌ Error fetching photos for purge:', fetchError);
+        throw fetchError;
+      }
+
+      const { error: storageError } = await supabase.storage
+        .from('photos')
+        .remove((data || []).map(photo => storagePathFromUrl(photo.url)));
+
+      if (storageError) {
+        console.warn('⚠️ Storage deletion warning:', storageError);
+        // Don't throw here - continue with database deletion
+      }
+
+      const { error: dbError } = await supabase
+        .from('photos')
+        .delete()
+        .in('id', chunk);
+
+      if (dbError) {
+        console.error('❌ Database deletion error:', dbError);
+        throw dbError;
+      }
+
+      set((state) => ({
+        photos: state.photos.filter(p => !chunk.includes(p.id)),
+        lastRefreshTime: Date.now()
+      }));
+      done += chunk.length;
+      onProgress?.(done, photoIds.length);
+    }
+
+    console.log(`✅ Purged ${done} photos`);
+  },
+
+  // Purge everything that has sat in the trash longer than the retention period
+  purgeExpiredPhotos: async (collageId: string, retentionDays: number) => {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('photos')
+      .select('id')
+      .eq('collage_id', collageId)
+      .lt('deleted_at', cutoff);
+
+    if (error) {
+      console.error('❌ Error finding expired photos:', error);
+      throw error;
+    }
+    if (!data || data.length === 0) return 0;
+
+    console.log(`🗑️ Purging ${data.length} expired photos from trash`);
+    await get().purgePhotos(data.map(photo => photo.id));
+    return data.length;
   }
 }));
\ No newline at end of file
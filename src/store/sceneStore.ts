@@ -1,7 +1,41 @@
 import { create } from 'zustand';
+import { type EasingName } from '../lib/easing';
+import { type SlotPolicy } from '../components/three/SlotManager';
+import { type InputBindings } from '../lib/inputMap';
+import { DEFAULT_SCREENING_SETTINGS } from '../lib/screening/settings';
+import { type ScreeningSettings } from '../lib/screening/types';
+import { DEFAULT_DUPLICATE_SETTINGS, type DuplicateSettings } from '../lib/duplicates';
+
+// Per-pattern option values, keyed by pattern id (see PatternRegistry)
+export type PatternSettingsMap = Record<string, Record<string, number | boolean | string>>;
+
+export type PlaylistItem = {
+  id: string;
+  pattern: string;
+  dwell: number; // Seconds to stay on this pattern
+  overrides: Partial<Omit<SceneSettings, 'playlist' | 'animationPattern'>>;
+};
+
+export type PatternPlaylist = {
+  enabled: boolean;
+  items: PlaylistItem[];
+  loop: boolean;
+  shuffle: boolean;
+  pauseOnNewPhoto: boolean;
+  newPhotoPause: number; // Seconds added to the current item when a photo arrives
+};
+
+// A recorded camera view on a fly-through path
+export type CameraKeyframe = {
+  id: string;
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number;
+  duration: number; // Seconds to travel from this keyframe to the next
+};
 
 export type SceneSettings = {
-  animationPattern: 'float' | 'wave' | 'spiral' | 'grid';
+  animationPattern: string;
   gridAspectRatioPreset: '1:1' | '4:3' | '16:9' | '21:9' | 'custom';
   animationSpeed: number;
   animationEnabled: boolean;
@@ -17,6 +51,11 @@ export type SceneSettings = {
   cameraRotationSpeed: number;
   cameraHeight: number;
   cameraEnabled: boolean;
+  cameraMode: 'orbit' | 'path' | 'director';
+  cameraPath: CameraKeyframe[];
+  cameraPathEasing: EasingName;
+  directorHoldSeconds: number;
+  directorWideSeconds: number;
   spotlightCount: number;
   spotlightHeight: number;
   spotlightDistance: number;
@@ -44,32 +83,27 @@ export type SceneSettings = {
   wallHeight: number;
   gridAspectRatio: number;
   photoBrightness: number;
-  patterns: {
-    grid: {
-      enabled: boolean;
-      spacing: number;
-      aspectRatio: number;
-      wallHeight: number;
-    };
-    float: {
-      enabled: boolean;
-      spacing: number;
-      height: number;
-      spread: number;
-    };
-    wave: {
-      enabled: boolean;
-      spacing: number;
-      amplitude: number;
-      frequency: number;
-    };
-    spiral: {
-      enabled: boolean;
-      spacing: number;
-      radius: number;
-      heightStep: number;
-    };
-  };
+  transitionDuration: number;
+  transitionEasing: EasingName;
+  transitionStagger: number;
+  transitionStyle: 'morph' | 'explode';
+  transitionExplodeDistance: number;
+  seed: number;
+  renderMode: 'meshes' | 'instanced';
+  textureMemoryBudget: number;
+  slotPolicy: SlotPolicy;
+  slotRotationInterval: number;
+  arrivalSpotlightEnabled: boolean;
+  arrivalHoldSeconds: number;
+  arrivalShowCaption: boolean;
+  arrivalCameraFollow: boolean;
+  inputBindings: InputBindings;
+  requireApproval: boolean;
+  trashRetentionDays: number;
+  screening: ScreeningSettings;
+  duplicates: DuplicateSettings;
+  patterns: PatternSettingsMap;
+  playlist: PatternPlaylist;
 };
 
 const defaultSettings: SceneSettings = {
@@ -89,6 +123,11 @@ const defaultSettings: SceneSettings = {
   cameraRotationSpeed: 0.2,
   cameraHeight: 10,
   cameraEnabled: true,
+  cameraMode: 'orbit', // 'path' plays cameraPath as a looping fly-through; 'director' tours photos
+  cameraPath: [],
+  cameraPathEasing: 'easeInOutSine',
+  directorHoldSeconds: 5, // Seconds the auto-director frames each photo
+  directorWideSeconds: 8, // Seconds on the wide shot between close-ups
   spotlightCount: 4,
   spotlightHeight: 30,
   spotlightDistance: 40,
@@ -116,31 +155,40 @@ const defaultSettings: SceneSettings = {
   wallHeight: 0,
   gridAspectRatio: 1.77778,
   photoBrightness: 1.0, // 1.0 = natural photo brightness (100%)
+  transitionDuration: 1.5, // Seconds per photo when switching patterns (0 = instant)
+  transitionEasing: 'easeInOutCubic',
+  transitionStagger: 0.5, // Seconds between the first and last photo starting to move
+  transitionStyle: 'morph',
+  transitionExplodeDistance: 20,
+  seed: 1, // Drives every pattern's random layout; reroll to shuffle
+  renderMode: 'meshes',
+  textureMemoryBudget: 512, // MB of photo textures kept on the GPU before evicting
+  slotPolicy: 'none', // What to do with photos beyond photoCount
+  slotRotationInterval: 10, // Seconds between rotations for the timed slot policies
+  arrivalSpotlightEnabled: false, // Hero moment for photos uploaded while the collage is showing
+  arrivalHoldSeconds: 4,
+  arrivalShowCaption: true,
+  arrivalCameraFollow: false,
+  inputBindings: {}, // Viewer keyboard/gamepad overrides on top of DEFAULT_INPUT_BINDINGS
+  requireApproval: false, // Hold new photos for moderation (enforced by a trigger on photos)
+  trashRetentionDays: 30, // Days deleted photos can be restored before they're purged
+  screening: DEFAULT_SCREENING_SETTINGS, // Upload checks that hold photos for review (see lib/screening)
+  duplicates: DEFAULT_DUPLICATE_SETTINGS, // Whether uploads matching an existing photo are grouped or rejected
   patterns: {
-    grid: {
-      enabled: true,
-      spacing: 0.1,
-      aspectRatio: 1.77778,
-      wallHeight: 0
-    },
-    float: {
-      enabled: false,
-      spacing: 0.1,
-      height: 30,
-      spread: 25
-    },
-    wave: {
-      enabled: false,
-      spacing: 0.15,
-      amplitude: 5,
-      frequency: 0.5
-    },
-    spiral: {
-      enabled: false,
-      spacing: 0.1,
-      radius: 15,
-      heightStep: 0.5
-    }
+    grid: { enabled: true },
+    float: { enabled: false },
+    wave: { enabled: false },
+    spiral: { enabled: false },
+    sphere: { enabled: false },
+    shape: { enabled: false }
+  },
+  playlist: {
+    enabled: false,
+    items: [],
+    loop: true,
+    shuffle: false,
+    pauseOnNewPhoto: true,
+    newPhotoPause: 10
   }
 };
 
@@ -158,22 +206,34 @@ const debounce = (fn: Function, ms = 300) => {
   };
 };
 
+// Individual meshes each hold their own texture and material; the instanced renderer
+// draws every photo from shared texture atlases, so it can go much higher
+export const MAX_MESH_PHOTOS = 500;
+export const MAX_INSTANCED_PHOTOS = 5000;
+
+export const maxPhotoCount = (settings: Pick<SceneSettings, 'renderMode'>): number =>
+  settings.renderMode === 'instanced' ? MAX_INSTANCED_PHOTOS : MAX_MESH_PHOTOS;
+
 export const useSceneStore = create<SceneState>()((set, get) => {
   const immediateUpdate = (newSettings: Partial<SceneSettings>) => {
     const currentSettings = get().settings;
 
     // Handle pattern changes
     if (newSettings.animationPattern && newSettings.animationPattern !== currentSettings.animationPattern) {
-      // Update enabled states for patterns
-      Object.keys(currentSettings.patterns).forEach(pattern => {
-        currentSettings.patterns[pattern as keyof typeof currentSettings.patterns].enabled = 
-          pattern === newSettings.animationPattern;
+      // Update enabled states for patterns, adding an entry for patterns seen for the first time
+      const patterns = { ...currentSettings.patterns, ...newSettings.patterns };
+      const ids = new Set([...Object.keys(patterns), newSettings.animationPattern]);
+      ids.forEach(pattern => {
+        patterns[pattern] = { ...patterns[pattern], enabled: pattern === newSettings.animationPattern };
       });
+      newSettings.patterns = patterns;
     }
 
     // Handle photo count validation
-    if (newSettings.photoCount !== undefined) {
-      const count = Math.min(Math.max(5, Math.floor(Number(newSettings.photoCount))), 500);
+    if (newSettings.photoCount !== undefined || newSettings.renderMode !== undefined) {
+      const maxCount = maxPhotoCount({ ...currentSettings, ...newSettings });
+      const requested = newSettings.photoCount ?? currentSettings.photoCount;
+      const count = Math.min(Math.max(5, Math.floor(Number(requested))), maxCount);
       if (!isNaN(count)) {
         newSettings.photoCount = count;
       } else {
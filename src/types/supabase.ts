@@ -37,18 +37,45 @@ export interface Database {
           id: string
           collage_id: string
           url: string
+          caption: string | null
+          pinned_slot: number | null
+          featured: boolean
+          status: 'pending' | 'approved' | 'rejected' | 'hidden'
+          source: 'photobooth' | 'uploader' | null
+          screening_flags: Json | null
+          phash: string | null
+          duplicate_of: string | null
+          deleted_at: string | null
           created_at: string
         }
         Insert: {
           id?: string
           collage_id: string
           url: string
+          caption?: string | null
+          pinned_slot?: number | null
+          featured?: boolean
+          status?: 'pending' | 'approved' | 'rejected' | 'hidden'
+          source?: 'photobooth' | 'uploader' | null
+          screening_flags?: Json | null
+          phash?: string | null
+          duplicate_of?: string | null
+          deleted_at?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           collage_id?: string
           url?: string
+          caption?: string | null
+          pinned_slot?: number | null
+          featured?: boolean
+          status?: 'pending' | 'approved' | 'rejected' | 'hidden'
+          source?: 'photobooth' | 'uploader' | null
+          screening_flags?: Json | null
+          phash?: string | null
+          duplicate_of?: string | null
+          deleted_at?: string | null
           created_at?: string
         }
       }
@@ -315,7 +342,14 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      find_duplicate_photo: {
+        Args: {
+          p_collage_id: string
+          p_phash: string
+          p_max_distance: number
+        }
+        Returns: number | null
+      }
     }
     Enums: {
       [_ in never]: never
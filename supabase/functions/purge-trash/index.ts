@@ -0,0 +1,54 @@
+// Permanently deletes trashed photos past their collage's retention period: storage
+// files first, then rows. Called hourly by pg_cron (see the patient_sweeper migration)
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Rows per round, to keep the id list in the delete URL short
+const BATCH_SIZE = 100;
+
+// Storage path (collage_id/filename) of a photo's public URL
+const storagePathFromUrl = (url: string): string => {
+  const pathParts = new URL(url).pathname.split('/');
+  return pathParts.slice(-2).join('/');
+};
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  let purged = 0;
+  try {
+    while (true) {
+      const { data, error } = await supabase.rpc('expired_trashed_photos', { p_limit: BATCH_SIZE });
+      if (error) throw error;
+      if (!data || data.length === 0) break;
+
+      const photos = data as { id: string; url: string }[];
+      const { error: storageError } = await supabase.storage
+        .from('photos')
+        .remove(photos.map(photo => storagePathFromUrl(photo.url)));
+
+      if (storageError) {
+        console.warn('⚠️ PURGE: Storage deletion warning:', storageError);
+        // Don't stop here - the rows still go, like a purge from the moderation page
+      }
+
+      const { error: dbError } = await supabase
+        .from('photos')
+        .delete()
+        .in('id', photos.map(photo => photo.id));
+
+      if (dbError) throw dbError;
+
+      purged += photos.length;
+      if (photos.length < BATCH_SIZE) break;
+    }
+
+    console.log(`🗑️ PURGE: Deleted ${purged} expired photos`);
+    return Response.json({ purged });
+  } catch (error) {
+    console.error('❌ PURGE: Failed after', purged, 'photos:', error);
+    return Response.json({ purged, error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
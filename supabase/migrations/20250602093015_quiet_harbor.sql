@@ -0,0 +1,6 @@
+-- Optional caption from the uploader, shown when a new photo arrives in the collage
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS caption text;
+
+-- Keep captions short enough to fit under the photo on a big screen
+ALTER TABLE photos DROP CONSTRAINT IF EXISTS photos_caption_length;
+ALTER TABLE photos ADD CONSTRAINT photos_caption_length CHECK (char_length(caption) <= 140);
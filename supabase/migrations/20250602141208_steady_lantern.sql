@@ -0,0 +1,11 @@
+-- Let hosts pin photos to a fixed slot and mark favourites that are always on screen
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS pinned_slot integer;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS featured boolean NOT NULL DEFAULT false;
+
+ALTER TABLE photos DROP CONSTRAINT IF EXISTS photos_pinned_slot_positive;
+ALTER TABLE photos ADD CONSTRAINT photos_pinned_slot_positive CHECK (pinned_slot >= 0);
+
+-- Only one photo per slot in a collage
+CREATE UNIQUE INDEX IF NOT EXISTS photos_collage_pinned_slot_key
+  ON photos (collage_id, pinned_slot)
+  WHERE pinned_slot IS NOT NULL;
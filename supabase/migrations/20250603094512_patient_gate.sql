@@ -0,0 +1,35 @@
+-- Photo lifecycle for pre-moderation: collages with "requireApproval" set hold new
+-- photos as pending until a host approves them
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'approved';
+
+ALTER TABLE photos DROP CONSTRAINT IF EXISTS photos_status_check;
+ALTER TABLE photos ADD CONSTRAINT photos_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'hidden'));
+
+-- The moderation queue and the live view both filter on status
+CREATE INDEX IF NOT EXISTS photos_collage_status_idx ON photos (collage_id, status);
+
+-- Decide the starting status on the server, so uploaders can't skip the queue
+DROP TRIGGER IF EXISTS set_photo_initial_status ON photos;
+DROP FUNCTION IF EXISTS set_photo_initial_status();
+
+CREATE OR REPLACE FUNCTION set_photo_initial_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM collage_settings
+    WHERE collage_settings.collage_id = NEW.collage_id
+    AND (collage_settings.settings->>'requireApproval')::boolean IS TRUE
+  ) THEN
+    NEW.status := 'pending';
+  ELSE
+    NEW.status := 'approved';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_photo_initial_status
+  BEFORE INSERT ON photos
+  FOR EACH ROW
+  EXECUTE FUNCTION set_photo_initial_status();
@@ -0,0 +1,14 @@
+-- Soft delete: deleted photos go to a per-collage trash and are purged after the
+-- collage's retention period by the moderation page
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Trash listings and the purge look photos up by deletion time
+CREATE INDEX IF NOT EXISTS photos_collage_deleted_at_idx
+  ON photos (collage_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- A photo in the trash no longer holds on to its pinned slot
+DROP INDEX IF EXISTS photos_collage_pinned_slot_key;
+CREATE UNIQUE INDEX IF NOT EXISTS photos_collage_pinned_slot_key
+  ON photos (collage_id, pinned_slot)
+  WHERE pinned_slot IS NOT NULL AND deleted_at IS NULL;
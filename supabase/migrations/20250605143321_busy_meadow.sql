@@ -0,0 +1,6 @@
+-- Where each photo came from, so moderators can filter photobooth shots from uploads
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS source text;
+
+ALTER TABLE photos DROP CONSTRAINT IF EXISTS photos_source_check;
+ALTER TABLE photos ADD CONSTRAINT photos_source_check
+  CHECK (source IN ('photobooth', 'uploader'));
@@ -0,0 +1,19 @@
+-- Rules tripped by the in-browser upload screening, e.g. [{"rule": "blank", "score": 0.97}]
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS screening_flags jsonb;
+
+-- Flagged photos are held for review even when the collage doesn't require approval
+CREATE OR REPLACE FUNCTION set_photo_initial_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF jsonb_array_length(COALESCE(NEW.screening_flags, '[]'::jsonb)) > 0 OR EXISTS (
+    SELECT 1 FROM collage_settings
+    WHERE collage_settings.collage_id = NEW.collage_id
+    AND (collage_settings.settings->>'requireApproval')::boolean IS TRUE
+  ) THEN
+    NEW.status := 'pending';
+  ELSE
+    NEW.status := 'approved';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,24 @@
+-- Perceptual hash of each upload (16 hex digits, see src/lib/screening/imageHash.ts) and,
+-- for uploads that looked like an existing photo, the photo they were grouped with
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS phash text;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES photos(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS photos_duplicate_of_idx ON photos(duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+-- Grouped duplicates wait for review alongside flagged photos
+CREATE OR REPLACE FUNCTION set_photo_initial_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.duplicate_of IS NOT NULL
+  OR jsonb_array_length(COALESCE(NEW.screening_flags, '[]'::jsonb)) > 0 OR EXISTS (
+    SELECT 1 FROM collage_settings
+    WHERE collage_settings.collage_id = NEW.collage_id
+    AND (collage_settings.settings->>'requireApproval')::boolean IS TRUE
+  ) THEN
+    NEW.status := 'pending';
+  ELSE
+    NEW.status := 'approved';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
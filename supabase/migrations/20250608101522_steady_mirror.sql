@@ -0,0 +1,21 @@
+-- Closest photo in a collage to an upload's perceptual hash (16 hex digits, see
+-- src/lib/screening/imageHash.ts), or nothing when none is within p_max_distance bits.
+-- Runs as the owner so every upload is compared with every photo in the collage, including
+-- ones the uploader can't see, from any device
+CREATE OR REPLACE FUNCTION find_duplicate_photo(p_collage_id uuid, p_phash text, p_max_distance integer)
+RETURNS TABLE (id uuid, duplicate_of uuid, distance integer) AS $$
+  SELECT candidates.id, candidates.duplicate_of, candidates.distance
+  FROM (
+    SELECT photos.id, photos.duplicate_of, photos.created_at,
+      bit_count(('x' || photos.phash)::bit(64) # ('x' || p_phash)::bit(64))::integer AS distance
+    FROM photos
+    WHERE photos.collage_id = p_collage_id
+    AND photos.phash IS NOT NULL
+    AND photos.deleted_at IS NULL
+  ) candidates
+  WHERE candidates.distance <= p_max_distance
+  ORDER BY candidates.distance, candidates.created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION find_duplicate_photo(uuid, text, integer) TO anon, authenticated;
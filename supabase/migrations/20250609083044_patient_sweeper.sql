@@ -0,0 +1,37 @@
+-- Trashed photos past their collage's retention period (settings.trashRetentionDays,
+-- 30 days by default), oldest first. Read by the purge-trash edge function
+CREATE OR REPLACE FUNCTION expired_trashed_photos(p_limit integer DEFAULT 100)
+RETURNS TABLE (id uuid, url text) AS $$
+  SELECT photos.id, photos.url
+  FROM photos
+  LEFT JOIN collage_settings ON collage_settings.collage_id = photos.collage_id
+  WHERE photos.deleted_at IS NOT NULL
+  AND photos.deleted_at < now() - make_interval(
+    days => COALESCE((collage_settings.settings->>'trashRetentionDays')::integer, 30)
+  )
+  ORDER BY photos.deleted_at
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION expired_trashed_photos(integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expired_trashed_photos(integer) TO service_role;
+
+-- Empty every collage's trash once an hour, whether or not a host opens the moderation
+-- page. The project URL and service role key come from Vault (see README)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-trash',
+  '17 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,3 @@
+-- Send the previous row with realtime UPDATE events, so screens that never loaded a
+-- photo can tell a fresh approval (which gets a hero arrival) from a restore from the trash
+ALTER TABLE photos REPLICA IDENTITY FULL;
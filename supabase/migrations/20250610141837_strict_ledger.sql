@@ -0,0 +1,80 @@
+-- Perceptual hashes come from the uploading browser, so only accept the 16 lowercase hex
+-- digits find_duplicate_photo can cast; one malformed row would break every duplicate check
+UPDATE photos SET phash = NULL WHERE phash !~ '^[0-9a-f]{16}$';
+
+ALTER TABLE photos DROP CONSTRAINT IF EXISTS photos_phash_format;
+ALTER TABLE photos ADD CONSTRAINT photos_phash_format CHECK (phash ~ '^[0-9a-f]{16}$');
+
+-- Closest photo in a collage to a perceptual hash, or nothing when none is within
+-- p_max_distance bits. Sees every photo, so it's only for the functions below
+CREATE OR REPLACE FUNCTION closest_photo(p_collage_id uuid, p_phash text, p_max_distance integer)
+RETURNS TABLE (id uuid, duplicate_of uuid, distance integer) AS $$
+BEGIN
+  IF p_phash IS NULL OR p_phash !~ '^[0-9a-f]{16}$' THEN
+    RAISE EXCEPTION 'Invalid perceptual hash: %', p_phash USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT candidates.id, candidates.duplicate_of, candidates.distance
+  FROM (
+    SELECT photos.id, photos.duplicate_of, photos.created_at,
+      bit_count(('x' || photos.phash)::bit(64) # ('x' || p_phash)::bit(64))::integer AS distance
+    FROM photos
+    WHERE photos.collage_id = p_collage_id
+    AND photos.phash IS NOT NULL
+    AND photos.deleted_at IS NULL
+  ) candidates
+  WHERE candidates.distance <= p_max_distance
+  ORDER BY candidates.distance, candidates.created_at
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION closest_photo(uuid, text, integer) FROM public, anon, authenticated;
+
+-- Uploaders only learn how close the nearest photo is, never which photo it is, so the
+-- check can't be used to find pending, rejected or hidden photos
+DROP FUNCTION IF EXISTS find_duplicate_photo(uuid, text, integer);
+
+CREATE FUNCTION find_duplicate_photo(p_collage_id uuid, p_phash text, p_max_distance integer)
+RETURNS integer AS $$
+  SELECT distance FROM closest_photo(p_collage_id, p_phash, p_max_distance);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION find_duplicate_photo(uuid, text, integer) TO anon, authenticated;
+
+-- Grouped duplicates are linked here rather than by the uploader, following the collage's
+-- duplicate settings (group within 6 bits unless set otherwise), and wait for review
+-- alongside flagged photos
+CREATE OR REPLACE FUNCTION set_photo_initial_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  duplicates jsonb;
+  match record;
+BEGIN
+  SELECT collage_settings.settings->'duplicates' INTO duplicates
+  FROM collage_settings
+  WHERE collage_settings.collage_id = NEW.collage_id;
+
+  NEW.duplicate_of := NULL;
+  IF NEW.phash IS NOT NULL AND COALESCE(duplicates->>'mode', 'group') = 'group' THEN
+    SELECT * INTO match
+    FROM closest_photo(NEW.collage_id, NEW.phash, COALESCE((duplicates->>'maxDistance')::integer, 6));
+    IF FOUND THEN
+      NEW.duplicate_of := COALESCE(match.duplicate_of, match.id);
+    END IF;
+  END IF;
+
+  IF NEW.duplicate_of IS NOT NULL
+  OR jsonb_array_length(COALESCE(NEW.screening_flags, '[]'::jsonb)) > 0 OR EXISTS (
+    SELECT 1 FROM collage_settings
+    WHERE collage_settings.collage_id = NEW.collage_id
+    AND (collage_settings.settings->>'requireApproval')::boolean IS TRUE
+  ) THEN
+    NEW.status := 'pending';
+  ELSE
+    NEW.status := 'approved';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
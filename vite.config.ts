@@ -1,8 +1,34 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Connect, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Pages with the 3D scene are served cross-origin isolated (see public/_headers) so the
+// pattern worker can write positions into a SharedArrayBuffer. Everything else they load
+// (scripts, the worker) carries the embedder policy too; other pages stay unisolated so
+// the landing page's embeds keep working
+const ISOLATED_PAGES = /^\/(collage|dashboard\/collage|moderation)\//;
+
+const crossOriginIsolation = (): Plugin => {
+  const middleware: Connect.NextHandleFunction = (req, res, next) => {
+    const page = req.headers['sec-fetch-dest'] === 'document';
+    if (!page || ISOLATED_PAGES.test(req.url || '')) {
+      res.setHeader('Cross-Origin-Embedder-Policy', 'require-corp');
+      if (page) res.setHeader('Cross-Origin-Opener-Policy', 'same-origin');
+    }
+    next();
+  };
+  return {
+    name: 'cross-origin-isolation',
+    configureServer: (server) => {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer: (server) => {
+      server.middlewares.use(middleware);
+    },
+  };
+};
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), crossOriginIsolation()],
   server: {
     headers: {
       'Cross-Origin-Resource-Policy': 'cross-origin'
@@ -11,4 +37,4 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
-});
\ No newline at end of file
+});